@@ -0,0 +1,30 @@
+import { SHARED_IMPORT_KEY, type SharedImportPayload } from '@/lib/importers';
+
+const MAX_SHARED_BYTES = 10 * 1024 * 1024;
+
+// PWA share target (see public/manifest.json). Files arrive as a multipart
+// POST; they are handed to the client through sessionStorage and the app
+// picks them up on load.
+export async function POST(request: Request) {
+  const payload: SharedImportPayload = [];
+  try {
+    const form = await request.formData();
+    for (const entry of form.getAll('file')) {
+      if (typeof entry === 'string' || entry.size > MAX_SHARED_BYTES) continue;
+      payload.push({ name: entry.name, text: await entry.text() });
+    }
+  } catch (err) {
+    console.error("Share target parse failed", err);
+  }
+
+  const json = JSON.stringify(payload).replace(/</g, '\\u003c');
+  const html = `<!doctype html><meta charset="utf-8"><script>
+try { sessionStorage.setItem(${JSON.stringify(SHARED_IMPORT_KEY)}, ${JSON.stringify(json)}); } catch (e) {}
+location.replace('/');
+</script>`;
+  return new Response(html, { headers: { 'content-type': 'text/html; charset=utf-8' } });
+}
+
+export function GET(request: Request) {
+  return Response.redirect(new URL('/', request.url), 303);
+}
@@ -1,15 +1,49 @@
 "use client";
 
-import React, { useState, useEffect, useRef, useMemo, memo, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useMemo, memo, useCallback, Fragment } from 'react';
 import { 
   Sun, Cloud, CloudRain, CloudLightning, Snowflake, CloudFog, CloudSun,
   AlertCircle, Mountain, Activity, Navigation, MapPin, Loader2,
   Trash2, Crosshair, Compass as CompassIcon, WifiOff,
   Maximize2, X, LocateFixed, Circle, Download, Sunrise, Sunset, Moon, Wind,
   Share2, Signal, Plus, Minus, Copy, Check, RotateCw, Layers, Scan,
-  ArrowUp, Hand, Video, VideoOff, Eye, Zap, Aperture, Target, Upload, Image as ImageIcon
+  ArrowUp, Hand, Video, VideoOff, Eye, Zap, Aperture, Target, Upload, Image as ImageIcon, Ban, SlidersHorizontal, History, Library, Pencil, Map as MapIcon, Pause, Play, ChevronDown, Spline,
+  MapPinPlus, Flag, Tent, Droplet, Car, TriangleAlert, Camera, Star, Undo2, Fence, Pentagon
 } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Slider } from "@/components/ui/slider";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuLabel, DropdownMenuRadioGroup, DropdownMenuRadioItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { toast } from "@/hooks/use-toast";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { calculateTotalDistance, getDistance, splitSegments, toRad, type BoundingBox, type Coordinates, type GeoPoint } from "@/lib/geo";
+import { COORDINATE_FORMATS, DEFAULT_COORDINATE_FORMAT, formatCoordinateRows, formatPosition, getGridConvergence, type CoordinateFormat } from "@/lib/coordinate-formats";
+import { getMagneticField } from "@/lib/wmm";
+import { COMPASS_ISSUE_LABELS, angleDifference, createCalibrationTracker, createCompassHealthMonitor, type CalibrationProgress, type CompassHealth } from "@/lib/compass-health";
+import { EMPTY_FUSED_HEADING, createHeadingFusion, type FusedHeading, type HeadingSource } from "@/lib/heading-fusion";
+import { HEADING_METHOD_LABELS, cameraDirectionFromRotationMatrix, headingFromRotationMatrix, rotationMatrixFromEuler, rotationMatrixFromQuaternion, type CameraDirection, type HeadingMethod } from "@/lib/orientation";
+import {
+  DEFAULT_GEOHASH_PRECISION, GEOHASH_PRECISION_RANGE, LOCATION_CODE_LABELS, decodeLocationCode, encodeGeohash, encodeMaidenhead, encodePlusCode, type LocationCodeKind
+} from "@/lib/location-codes";
+import { PARSED_FORMAT_LABELS, parseCoordinateInput, type ParsedCoordinate } from "@/lib/coordinate-parser";
+import { createKalmanFilter } from "@/lib/kalman-filter";
+import { createLocationProvider, createDemoRoute, DEFAULT_REPLAY_RATE, REPLAY_RATES, type LocationFix, type LocationProvider, type LocationSourceConfig, type LocationSourceKind } from "@/lib/location-providers";
+import { generateGPX, parseGPXTrack, type GPXDeviceInfo, type GPXWaypoint } from "@/lib/gpx";
+import { EXPORTERS, EXPORT_FORMATS, type ExportFormat } from "@/lib/exporters";
+import { DEFAULT_SIMPLIFY_CONFIG, SIMPLIFY_ALGORITHMS, simplifyLine, simplifyTrack, type SimplifyConfig, type SimplifyStats } from "@/lib/simplify";
+import { IMPORT_ACCEPT, parseImportFile, takeSharedImports, type ImportedDataset } from "@/lib/importers";
+import { 
+  appendActivePoint, beginActiveRecording, clearActiveRecording, isTrackStoreAvailable, loadActiveRecording, markActiveRecordingStopped,
+  createSavedTrack, saveTrack, listTracks, renameTrack, deleteTrack, type ActiveRecording, type SavedTrack,
+  createWaypoint, nextWaypointIndex, saveWaypoint, listWaypoints, deleteWaypoint, type Waypoint, type WaypointIcon,
+  saveGeofence, listGeofences, deleteGeofence, saveGeofenceEvents, listGeofenceEvents, clearGeofenceEvents, loadSetting, saveSetting
+} from "@/lib/track-store";
+import { ARRIVAL_RADIUS_RANGE, DEFAULT_ARRIVAL_RADIUS, createArrivalDetector, solveGoTo, type GoToSolution, type NavTarget } from "@/lib/navigation";
+import { DEFAULT_OFF_ROUTE_DISTANCE, OFF_ROUTE_RANGE, createRouteNavigator, createTracBackRoute, type Route, type RouteNavigator, type RouteProgress } from "@/lib/route-navigator";
+import { GEOFENCE_EVENT_LABELS, createGeofence, createGeofenceMonitor, geofenceEventsToCSV, geofenceRing, type Geofence, type GeofenceEvent, type GeofenceShape } from "@/lib/geofences";
+import { createFixValidator, recordRejection, EMPTY_REJECTION_STATS, FIX_REJECTION_LABELS, type FixRejectionStats } from "@/lib/fix-validator";
+import { getSolarPosition, getSolarTimes, shiftDays, solarDayIndex, type SolarPosition, type TimeRange } from "@/lib/solar";
+import { MOON_PHASE_LABELS, getMoonIllumination, getMoonPosition, getMoonTimes, type MoonPosition } from "@/lib/moon";
 
 // --- TensorFlow & Webcam ---
 import Webcam from "react-webcam";
@@ -32,25 +66,51 @@ const TRAIL_MIN_DISTANCE = 5;
 const MAP_UPDATE_THRESHOLD = 80; 
 const API_FETCH_DISTANCE_THRESHOLD = 2.0; 
 const REC_MIN_DISTANCE = 5; 
-const GPS_HEADING_THRESHOLD = 1.0; 
+const COURSE_CHECK_CONFIDENCE = 0.5; 
+const HEADING_CONE_MIN = 12; 
+const HEADING_CONE_MAX = 60; 
+const HEADING_CONE_RADIUS = 44; 
+const DEFAULT_SIM_CENTER = { lat: 51.5007, lng: -0.1246 };
+const IMPORT_COLOR = '#38bdf8';
+const WAYPOINT_COLOR = '#f97316';
+const GEOFENCE_COLOR = '#a855f7';
+const CODE_CELL_COLOR = '#38bdf8';
+const SUN_COLOR = '#fbbf24';
+const MOON_COLOR = '#cbd5e1';
+const RENDER_SIMPLIFY_MIN_POINTS = 1500;
 
 // --- Constants ---
 const COMPASS_TICKS = [...Array(72)].map((_, i) => i);
 const PITCH_LADDER_LINES = [-60, -50, -40, -30, -20, -10, 10, 20, 30, 40, 50, 60];
 const BANKING_SCALE_TICKS = [-30, -20, -10, 10, 20, 30];
+const NORTH_REFERENCES: { id: NorthReference, label: string }[] = [
+  { id: 'magnetic', label: 'MAG' },
+  { id: 'true', label: 'TRUE' },
+  { id: 'grid', label: 'GRID' },
+];
+const EMPTY_OVERLAY_LINES: LatLng[][] = [];
+const EMPTY_OVERLAY_POINTS: LatLng[] = [];
+const EMPTY_WAYPOINTS: Waypoint[] = [];
+const EMPTY_GEOFENCES: Geofence[] = [];
+const HEALTHY_COMPASS: CompassHealth = { reliable: true, issue: null, courseOffset: null };
 
-// --- Types ---
-type Coordinates = {
-  latitude: number;
-  longitude: number;
-  accuracy: number | null;
-  altitude: number | null;
-  speed: number | null;
-  heading: number | null;
+// `symbol` is written as the GPX <sym>, using Garmin's names where one fits.
+const WAYPOINT_ICONS: Record<WaypointIcon, { icon: any, label: string, symbol: string }> = {
+  pin: { icon: MapPin, label: 'Pin', symbol: 'Waypoint' },
+  flag: { icon: Flag, label: 'Flag', symbol: 'Flag, Blue' },
+  camp: { icon: Tent, label: 'Camp', symbol: 'Campground' },
+  water: { icon: Droplet, label: 'Water', symbol: 'Drinking Water' },
+  vehicle: { icon: Car, label: 'Vehicle', symbol: 'Car' },
+  hazard: { icon: TriangleAlert, label: 'Hazard', symbol: 'Danger Area' },
+  photo: { icon: Camera, label: 'Photo', symbol: 'Scenic Area' },
+  star: { icon: Star, label: 'Star', symbol: 'Star' },
 };
 
+// --- Types ---
 type GeoState = {
   coords: Coordinates | null;
+  rawCoords: Coordinates | null;
+  rejections: FixRejectionStats;
   error: string | null;
   loading: boolean;
 };
@@ -61,20 +121,43 @@ type WeatherData = {
   description: string;
   windSpeed: number;
   windDir: number;
-  sunrise: string[];
-  sunset: string[];
 };
 
-type GeoPoint = { lat: number; lng: number; alt: number | null; timestamp: number };
 type UnitSystem = 'metric' | 'imperial';
+
+// Azimuths in degrees true unless a component says otherwise.
+type CelestialPositions = { sun: SolarPosition, moon: MoonPosition };
+type NorthReference = 'magnetic' | 'true' | 'grid';
 type MapMode = 'heading-up' | 'north-up';
 type MapStyle = 'satellite' | 'dark';
+type LatLng = { lat: number; lng: number };
 
 interface DeviceOrientationEventiOS extends DeviceOrientationEvent {
   webkitCompassHeading?: number;
   requestPermission?: () => Promise<'granted' | 'denied'>;
 }
 
+// Generic Sensor API; not in the TS DOM lib yet.
+interface OrientationSensorLike extends EventTarget {
+  quaternion: number[] | null;
+  start: () => void;
+  stop: () => void;
+}
+type OrientationSensorConstructor = new (options: { frequency: number, referenceFrame: 'device' | 'screen' }) => OrientationSensorLike;
+interface MagnetometerLike extends EventTarget {
+  x: number | null;
+  y: number | null;
+  z: number | null;
+  start: () => void;
+  stop: () => void;
+}
+type MagnetometerConstructor = new (options: { frequency: number }) => MagnetometerLike;
+
+const getScreenAngle = () => {
+  if (typeof window === 'undefined') return 0;
+  return window.screen?.orientation?.angle ?? 0;
+};
+
 // --- Helpers ---
 const triggerHaptic = () => {
   if (typeof navigator !== 'undefined' && navigator.vibrate) {
@@ -82,9 +165,30 @@ const triggerHaptic = () => {
   }
 };
 
-const formatCoordinate = (value: number, type: 'lat' | 'lng'): string => {
-  const direction = type === 'lat' ? (value >= 0 ? 'N' : 'S') : (value >= 0 ? 'E' : 'W');
-  return `${Math.abs(value).toFixed(6)}°${direction}`;
+let audioContext: AudioContext | null = null;
+
+// Three short high beeps; audible over wind where speech might not be.
+const playAlertTone = () => {
+  if (typeof window === 'undefined' || !window.AudioContext) return;
+  audioContext = audioContext ?? new AudioContext();
+  const ctx = audioContext;
+  if (ctx.state === 'suspended') ctx.resume().catch(() => {});
+  [0, 0.25, 0.5].forEach(offset => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.frequency.value = 1760;
+    gain.gain.setValueAtTime(0.25, ctx.currentTime + offset);
+    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + offset + 0.18);
+    osc.connect(gain).connect(ctx.destination);
+    osc.start(ctx.currentTime + offset);
+    osc.stop(ctx.currentTime + offset + 0.2);
+  });
+};
+
+const announce = (text: string) => {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) return;
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(new SpeechSynthesisUtterance(text));
 };
 
 const convertSpeed = (ms: number | null, system: UnitSystem): string => {
@@ -122,32 +226,21 @@ const getWeatherInfo = (code: number) => {
   return { label: "Overcast", icon: Cloud };
 };
 
+const normalizeDegrees = (degree: number) => ((degree % 360) + 360) % 360;
+
+const formatSignedDegrees = (degree: number) => `${degree < 0 ? '−' : '+'}${Math.abs(degree).toFixed(1)}°`;
+
+const celestialBodies = (celestial: CelestialPositions) => [
+  { id: 'sun', label: 'SUN', color: SUN_COLOR, ...celestial.sun },
+  { id: 'moon', label: 'MOON', color: MOON_COLOR, ...celestial.moon },
+];
+
 const getCompassDirection = (degree: number) => {
   const directions = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
   const normalized = ((degree % 360) + 360) % 360;
   return directions[Math.round(normalized / 45) % 8];
 };
 
-const getDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-  const R = 6371e3; 
-  const φ1 = lat1 * Math.PI / 180;
-  const φ2 = lat2 * Math.PI / 180;
-  const Δφ = (lat2 - lat1) * Math.PI / 180;
-  const Δλ = (lon2 - lon1) * Math.PI / 180;
-  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-};
-
-const calculateTotalDistance = (points: GeoPoint[]) => {
-  if (points.length < 2) return 0;
-  let total = 0;
-  for (let i = 0; i < points.length - 1; i++) {
-    total += getDistance(points[i].lat, points[i].lng, points[i+1].lat, points[i+1].lng);
-  }
-  return total;
-};
-
 const geoToPixels = (lat: number, lng: number, anchorLat: number, anchorLng: number, zoom: number) => {
   const TILE_SIZE = 512; 
   const worldSize = TILE_SIZE * Math.pow(2, zoom);
@@ -164,22 +257,59 @@ const geoToPixels = (lat: number, lng: number, anchorLat: number, anchorLng: num
   return { x: point.x - anchor.x, y: point.y - anchor.y };
 };
 
-const generateGPX = (points: GeoPoint[]) => {
-  const header = `<?xml version="1.0" encoding="UTF-8"?>
-<gpx version="1.1" creator="FieldNavApp" xmlns="http://www.topografix.com/GPX/1/1">
-  <trk>
-    <name>Mission Log ${new Date().toISOString()}</name>
-    <trkseg>`;
-  const footer = `
-    </trkseg>
-  </trk>
-</gpx>`;
-  const body = points.map(p => `
-      <trkpt lat="${p.lat}" lon="${p.lng}">
-        ${p.alt !== null ? `<ele>${p.alt.toFixed(2)}</ele>` : ''}
-        <time>${new Date(p.timestamp).toISOString()}</time>
-      </trkpt>`).join('');
-  return header + body + footer;
+const formatShortDistance = (meters: number, system: UnitSystem) => system === 'metric' 
+  ? (meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(2)} km`) 
+  : (meters < 1609.344 ? `${Math.round(meters * 3.28084)} ft` : `${(meters / 1609.344).toFixed(2)} mi`);
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(Math.round(ms / 1000), 0);
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const sec = totalSeconds % 60;
+  if (h > 0) return `${h}h ${m.toString().padStart(2, '0')}m`;
+  return `${m}m ${sec.toString().padStart(2, '0')}s`;
+};
+
+const downloadFile = (content: string, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const fileTimestamp = (time: number = Date.now()) => new Date(time).toISOString().slice(0,19).replace(/:/g, '-');
+
+const toGPXWaypoint = (w: Waypoint): GPXWaypoint => ({
+  lat: w.lat,
+  lng: w.lng,
+  alt: w.alt,
+  timestamp: w.timestamp,
+  name: w.name,
+  description: w.note || undefined,
+  symbol: WAYPOINT_ICONS[w.icon].symbol,
+});
+
+const toGPXEventWaypoint = (e: GeofenceEvent): GPXWaypoint => ({
+  lat: e.lat,
+  lng: e.lng,
+  alt: null,
+  timestamp: e.timestamp,
+  name: `${GEOFENCE_EVENT_LABELS[e.kind]} ${e.fenceName}`,
+  type: `geofence-${e.kind}`,
+});
+
+const getDeviceInfo = (): GPXDeviceInfo | null => {
+  if (typeof navigator === 'undefined') return null;
+  return {
+    userAgent: navigator.userAgent,
+    platform: (navigator as any).userAgentData?.platform ?? navigator.platform ?? null,
+    screen: typeof window !== 'undefined' ? `${window.screen.width}x${window.screen.height}@${window.devicePixelRatio}` : null,
+  };
 };
 
 // --- Hooks ---
@@ -217,57 +347,51 @@ const useWakeLock = () => {
   }, [requestLock, releaseLock]);
 };
 
-const useGeolocation = () => {
-  const [state, setState] = useState<GeoState>({ coords: null, error: null, loading: true });
+const useGeolocation = (provider: LocationProvider) => {
+  const [state, setState] = useState<GeoState>({ coords: null, rawCoords: null, rejections: EMPTY_REJECTION_STATS, error: null, loading: true });
   const lastUpdate = useRef<number>(0);
-  const watchId = useRef<number | null>(null);
+  const lastRaw = useRef<Coordinates | null>(null);
+  const filterRef = useRef(createKalmanFilter());
+  const validatorRef = useRef(createFixValidator());
 
   useEffect(() => {
-    if (typeof window === 'undefined' || !navigator.geolocation) {
-      setState({ coords: null, loading: false, error: "Geolocation not supported" });
-      return;
-    }
+    lastUpdate.current = 0;
+    lastRaw.current = null;
+    filterRef.current.reset();
+    validatorRef.current.reset();
+    setState(s => ({ ...s, loading: true, error: null }));
 
-    const startWatching = () => {
-      watchId.current = navigator.geolocation.watchPosition(
-        ({ coords }: GeolocationPosition) => {
-          const now = Date.now();
-          if (now - lastUpdate.current < 500) return;
-          if (isNaN(coords.latitude) || isNaN(coords.longitude)) return;
-          lastUpdate.current = now;
-
-          setState(prev => {
-            if (prev.coords && 
-                prev.coords.latitude === coords.latitude && 
-                prev.coords.longitude === coords.longitude &&
-                Math.abs((prev.coords.heading || 0) - (coords.heading || 0)) < 1) {
-              return prev;
-            }
-            return {
-              coords: {
-                latitude: coords.latitude,
-                longitude: coords.longitude,
-                accuracy: coords.accuracy,
-                altitude: coords.altitude,
-                speed: coords.speed,
-                heading: coords.heading,
-              }, 
-              error: null, 
-              loading: false,
-            };
-          });
-        }, 
-        (error) => {
-          if (error.code === error.TIMEOUT) return; 
-          setState(s => ({ ...s, loading: false, error: "Signal Lost" }));
-        }, 
-        { enableHighAccuracy: true, timeout: 15000, maximumAge: 1000 }
-      );
-    };
+    const stop = provider.watch(
+      ({ coords: raw, timestamp }: LocationFix) => {
+        const now = Date.now();
+        const fixTime = timestamp || now;
+        // Replay runs faster than real time; throttling on track time keeps every fix at 10x/20x.
+        const clock = provider.id === 'replay' ? fixTime : now;
+        if (clock - lastUpdate.current < 500) return;
+        lastUpdate.current = clock;
 
-    startWatching();
-    return () => { if (watchId.current !== null) navigator.geolocation.clearWatch(watchId.current); };
-  }, []);
+        const prev = lastRaw.current;
+        if (prev && 
+            prev.latitude === raw.latitude && 
+            prev.longitude === raw.longitude &&
+            Math.abs((prev.heading || 0) - (raw.heading || 0)) < 1) {
+          return;
+        }
+        lastRaw.current = raw;
+
+        const verdict = validatorRef.current.validate(raw, fixTime);
+        if (!verdict.ok) {
+          setState(s => ({ ...s, rejections: recordRejection(s.rejections, verdict.reason, fixTime) }));
+          return;
+        }
+
+        const filtered = filterRef.current.process(raw, fixTime);
+        setState(s => ({ ...s, coords: filtered, rawCoords: raw, error: null, loading: false }));
+      }, 
+      (message) => setState(s => ({ ...s, loading: false, error: message }))
+    );
+    return stop;
+  }, [provider]);
 
   return state;
 };
@@ -275,11 +399,19 @@ const useGeolocation = () => {
 const useCompass = () => {
   const [visualHeading, setVisualHeading] = useState<number | null>(null);
   const [trueHeading, setTrueHeading] = useState<number | null>(null);
+  // Set while the orientation is too close to vertical to give a heading, so
+  // the last reading isn't mistaken for a live one.
+  const [headingStale, setHeadingStale] = useState(false);
+  const [camera, setCamera] = useState<(CameraDirection & { timestamp: number }) | null>(null);
   const [pitch, setPitch] = useState<number>(0);
   const [roll, setRoll] = useState<number>(0);
   const [permissionGranted, setPermissionGranted] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [method, setMethod] = useState<HeadingMethod | null>(null);
+  const [fieldStrength, setFieldStrength] = useState<number | null>(null);
   
+  const screenAngleRef = useRef(0);
+  const sensorActiveRef = useRef(false);
   const targetHeadingRef = useRef<number>(0);
   const currentHeadingRef = useRef<number>(0);
   const targetPitchRef = useRef<number>(0);
@@ -343,22 +475,106 @@ const useCompass = () => {
     }
   }, []);
 
+  const pushHeading = useCallback((degree: number) => {
+    const normalized = ((degree) + 360) % 360;
+    setTrueHeading(normalized);
+    setHeadingStale(false);
+    const current = targetHeadingRef.current;
+    const currentMod = (current % 360 + 360) % 360;
+    let delta = normalized - currentMod;
+    if (delta > 180) delta -= 360;
+    if (delta < -180) delta += 360;
+    targetHeadingRef.current = current + delta;
+  }, []);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    const update = () => { screenAngleRef.current = getScreenAngle(); };
+    update();
+    const orientation = window.screen?.orientation;
+    if (orientation) {
+      orientation.addEventListener('change', update);
+      return () => orientation.removeEventListener('change', update);
+    }
+    window.addEventListener('orientationchange', update);
+    return () => window.removeEventListener('orientationchange', update);
+  }, []);
+
+  // Chrome's fused sensor is preferred; once it delivers readings the
+  // deviceorientation path only feeds pitch and roll.
+  useEffect(() => {
+    if (!permissionGranted || typeof window === 'undefined' || !('AbsoluteOrientationSensor' in window)) return;
+    const Sensor = (window as unknown as { AbsoluteOrientationSensor: OrientationSensorConstructor }).AbsoluteOrientationSensor;
+    let sensor: OrientationSensorLike | null = null;
+    try {
+      sensor = new Sensor({ frequency: 30, referenceFrame: 'device' });
+      const current = sensor;
+      current.addEventListener('reading', () => {
+        if (!current.quaternion) return;
+        const matrix = rotationMatrixFromQuaternion(current.quaternion);
+        const degree = headingFromRotationMatrix(matrix, screenAngleRef.current);
+        sensorActiveRef.current = true;
+        setCamera({ ...cameraDirectionFromRotationMatrix(matrix), timestamp: Date.now() });
+        if (degree === null) { setHeadingStale(true); return; }
+        setMethod('fusion');
+        pushHeading(degree);
+      });
+      current.addEventListener('error', () => { sensorActiveRef.current = false; });
+      current.start();
+    } catch (e) { console.error("AbsoluteOrientationSensor unavailable", e); }
+    return () => { sensor?.stop(); sensorActiveRef.current = false; };
+  }, [permissionGranted, pushHeading]);
+
+  // Raw field strength (µT) for interference checks, where the browser exposes it.
+  useEffect(() => {
+    if (!permissionGranted || typeof window === 'undefined' || !('Magnetometer' in window)) return;
+    const Sensor = (window as unknown as { Magnetometer: MagnetometerConstructor }).Magnetometer;
+    let sensor: MagnetometerLike | null = null;
+    try {
+      sensor = new Sensor({ frequency: 5 });
+      const current = sensor;
+      current.addEventListener('reading', () => {
+        if (current.x !== null && current.y !== null && current.z !== null) setFieldStrength(Math.hypot(current.x, current.y, current.z));
+      });
+      current.addEventListener('error', () => setFieldStrength(null));
+      current.start();
+    } catch (e) { console.error("Magnetometer unavailable", e); }
+    return () => { sensor?.stop(); };
+  }, [permissionGranted]);
+
   useEffect(() => {
     if (!permissionGranted || typeof window === 'undefined') return;
     const handleOrientation = (e: any) => {
-      let degree: number | null = null;
-      if (e.webkitCompassHeading !== undefined && e.webkitCompassHeading !== null) degree = e.webkitCompassHeading;
-      else if (e.alpha !== null) degree = Math.abs(360 - e.alpha);
-
-      if (degree !== null) {
-        const normalized = ((degree) + 360) % 360;
-        setTrueHeading(normalized);
-        const current = targetHeadingRef.current;
-        const currentMod = (current % 360 + 360) % 360;
-        let delta = normalized - currentMod;
-        if (delta > 180) delta -= 360;
-        if (delta < -180) delta += 360;
-        targetHeadingRef.current = current + delta;
+      if (!sensorActiveRef.current) {
+        const screenAngle = screenAngleRef.current;
+        const matrix = e.alpha !== null && e.beta !== null && e.gamma !== null ? rotationMatrixFromEuler(e.alpha, e.beta, e.gamma) : null;
+        let degree: number | null = null;
+        let next: HeadingMethod | null = null;
+        if (e.webkitCompassHeading !== undefined && e.webkitCompassHeading !== null) {
+          degree = e.webkitCompassHeading + screenAngle;
+          next = 'ios';
+        } else if (matrix) {
+          degree = headingFromRotationMatrix(matrix, screenAngle);
+          next = 'tilt';
+          if (degree === null) setHeadingStale(true);
+        } else if (e.alpha !== null) {
+          degree = Math.abs(360 - e.alpha) + screenAngle;
+          next = 'alpha';
+        }
+        if (degree !== null) {
+          setMethod(next);
+          pushHeading(degree);
+        }
+        if (matrix) {
+          const direction = cameraDirectionFromRotationMatrix(matrix);
+          // iOS alpha has an arbitrary origin; re-anchor the camera on the
+          // compass heading through the facing direction in the same frame.
+          if (next === 'ios' && direction.heading !== null) {
+            const facing = headingFromRotationMatrix(matrix, screenAngle);
+            direction.heading = facing !== null && degree !== null ? ((degree + direction.heading - facing) % 360 + 360) % 360 : null;
+          }
+          setCamera({ ...direction, timestamp: Date.now() });
+        }
       }
       if (e.beta !== null) targetPitchRef.current = e.beta;
       if (e.gamma !== null) targetRollRef.current = e.gamma;
@@ -366,9 +582,9 @@ const useCompass = () => {
     const eventName = 'ondeviceorientationabsolute' in window ? 'deviceorientationabsolute' : 'deviceorientation';
     window.addEventListener(eventName, handleOrientation, true);
     return () => window.removeEventListener(eventName, handleOrientation, true);
-  }, [permissionGranted]);
+  }, [permissionGranted, pushHeading]);
 
-  return { heading: visualHeading, trueHeading, pitch, roll, requestAccess, permissionGranted, error };
+  return { heading: visualHeading, trueHeading, headingStale, camera, pitch, roll, requestAccess, permissionGranted, error, method, fieldStrength };
 };
 
 const useDebounce = <T,>(value: T, delay: number): T => {
@@ -598,6 +814,101 @@ const TacticalScanner = memo(() => {
 });
 TacticalScanner.displayName = "TacticalScanner";
 
+const SUN_SIGHT_MAX_ELEVATION_ERROR = 10; // degrees between camera and sun elevation
+const SUN_SIGHT_MAX_READING_AGE = 400; // ms before the camera direction counts as stale
+
+// Camera view for a celestial fix: with the sun under the crosshair the
+// camera points at a known true azimuth, so its difference to the compass
+// reading is the compass error. `heading` is the uncorrected direction of the
+// rear camera in degrees true and `elevation` its angle above the horizon,
+// both read at `readingAt`.
+const SunSight = memo(({ 
+  lat, 
+  lng, 
+  heading, 
+  elevation, 
+  readingAt, 
+  onCapture 
+}: { 
+  lat: number, 
+  lng: number, 
+  heading: number | null, 
+  elevation: number | null, 
+  readingAt: number | null, 
+  onCapture: (offset: number) => void 
+}) => {
+  // Re-render while open so a reading that stops arriving goes stale on screen.
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), SUN_SIGHT_MAX_READING_AGE / 2);
+    return () => clearInterval(id);
+  }, []);
+
+  const sun = getSolarPosition(new Date(), lat, lng);
+  const isFresh = readingAt !== null && now - readingAt <= SUN_SIGHT_MAX_READING_AGE;
+  const offset = heading !== null && isFresh ? angleDifference(sun.azimuth, heading) : null;
+  const elevationError = elevation !== null ? sun.elevation - elevation : null;
+  const isSunUp = sun.elevation > 0;
+  const isAimed = elevationError !== null && Math.abs(elevationError) <= SUN_SIGHT_MAX_ELEVATION_ERROR;
+  const canCapture = isSunUp && isAimed && offset !== null;
+
+  const capture = () => {
+    if (offset === null || readingAt === null || Date.now() - readingAt > SUN_SIGHT_MAX_READING_AGE) return;
+    triggerHaptic();
+    onCapture(offset);
+  };
+
+  const hint = !isSunUp ? "Sun is below the horizon" 
+    : elevationError === null || !isFresh ? "Compass not available" 
+    : heading === null ? "Sun too high to sight" 
+    : !isAimed ? (elevationError > 0 ? "Tilt up" : "Tilt down") 
+    : "Center the sun, then lock";
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black flex flex-col">
+        <div className="relative flex-1 w-full h-full overflow-hidden bg-black/90 flex items-center justify-center">
+            <Webcam
+                className="absolute inset-0 w-full h-full object-cover"
+                videoConstraints={{ facingMode: "environment" }}
+                muted
+            />
+            <div className="absolute inset-0 pointer-events-none flex items-center justify-center">
+                <div className={`w-24 h-24 border-2 rounded-full flex items-center justify-center transition-colors ${canCapture ? 'border-amber-400' : 'border-white/30'}`}>
+                    <Crosshair className={`w-6 h-6 ${canCapture ? 'text-amber-400' : 'text-white/50'}`} />
+                </div>
+                <div className="absolute w-full h-px bg-white/10" />
+                <div className="absolute h-full w-px bg-white/10" />
+            </div>
+        </div>
+
+        <div className="absolute top-4 left-4 flex flex-col gap-2 z-[60]">
+            <div className="px-3 py-1 bg-amber-500/20 border border-amber-500/50 text-amber-400 text-xs font-black tracking-widest rounded uppercase">
+                Sun Sight
+            </div>
+            <div className="px-3 py-2 bg-black/60 border border-white/10 rounded font-mono text-[10px] text-white/80 tabular-nums space-y-0.5 backdrop-blur-md">
+                <div>SUN&nbsp;&nbsp; AZ {sun.azimuth.toFixed(1)}° EL {formatSignedDegrees(sun.elevation)}</div>
+                <div>PHONE AZ {heading !== null && isFresh ? `${heading.toFixed(1)}°` : '--'} EL {elevation !== null ? formatSignedDegrees(elevation) : '--'}</div>
+                <div className="text-amber-400">ERROR {offset !== null ? formatSignedDegrees(offset) : '--'}</div>
+            </div>
+        </div>
+
+        <div className="absolute bottom-8 left-1/2 -translate-x-1/2 flex flex-col items-center gap-3 z-[60] w-[80%] max-w-xs">
+            <span className="text-[10px] font-bold uppercase tracking-widest text-white/80 text-center">{hint}</span>
+            <span className="text-[9px] font-mono text-white/40 text-center">Aim with the screen; never look at the sun directly.</span>
+            <button 
+                onClick={capture}
+                disabled={!canCapture}
+                type="button"
+                className="w-full py-3 rounded-full bg-amber-500/20 border border-amber-500/50 text-amber-400 text-xs font-black uppercase tracking-widest backdrop-blur-md active:scale-95 transition-all disabled:opacity-30"
+            >
+                <span className="flex items-center justify-center gap-2"><Sun className="w-4 h-4" /> Lock On Sun</span>
+            </button>
+        </div>
+    </div>
+  );
+});
+SunSight.displayName = "SunSight";
+
 // --- GESTURE COMPONENT ---
 const GestureOps = memo(({ 
   onToggleRecording, 
@@ -792,7 +1103,15 @@ const RadarMapbox = memo(({
   accuracy,
   zoom,
   onRecenter,
-  onToggleMode
+  onToggleMode,
+  overlayLines = EMPTY_OVERLAY_LINES,
+  overlayPoints = EMPTY_OVERLAY_POINTS,
+  waypoints = EMPTY_WAYPOINTS,
+  routeLine = EMPTY_OVERLAY_POINTS,
+  routeNext = null,
+  gpsConfidence = 0,
+  magneticConfidence = 1,
+  celestial = null
 }: { 
   path: GeoPoint[], 
   heading: number, 
@@ -802,7 +1121,15 @@ const RadarMapbox = memo(({
   accuracy: number | null,
   zoom: number,
   onRecenter: () => void,
-  onToggleMode: () => void
+  onToggleMode: () => void,
+  overlayLines?: LatLng[][],
+  overlayPoints?: LatLng[],
+  waypoints?: Waypoint[],
+  routeLine?: LatLng[],
+  routeNext?: LatLng | null,
+  gpsConfidence?: number,
+  magneticConfidence?: number,
+  celestial?: CelestialPositions | null
 }) => {
   const [anchor, setAnchor] = useState({ lat, lng });
   const [isOffCenter, setIsOffCenter] = useState(false);
@@ -838,8 +1165,40 @@ const RadarMapbox = memo(({
     return { userX: userPos.x, userY: userPos.y, svgPath: pathD };
   }, [lat, lng, anchor, path, zoom]);
 
+  const { overlayPath, overlayMarkers } = useMemo(() => {
+    const toPx = (p: LatLng) => geoToPixels(p.lat, p.lng, anchor.lat, anchor.lng, zoom);
+    const d = overlayLines
+      .filter(line => line.length > 1)
+      .map(line => "M " + line.map(p => { const pt = toPx(p); return `${pt.x},${pt.y}`; }).join(" L "))
+      .join(" ");
+    return { overlayPath: d, overlayMarkers: overlayPoints.map(toPx) };
+  }, [overlayLines, overlayPoints, anchor, zoom]);
+
+  const { routePath, routeNextPx } = useMemo(() => {
+    const toPx = (p: LatLng) => geoToPixels(p.lat, p.lng, anchor.lat, anchor.lng, zoom);
+    const d = routeLine.length > 1 ? "M " + routeLine.map(p => { const pt = toPx(p); return `${pt.x},${pt.y}`; }).join(" L ") : "";
+    return { routePath: d, routeNextPx: routeNext ? toPx(routeNext) : null };
+  }, [routeLine, routeNext, anchor, zoom]);
+
+  const waypointMarkers = useMemo(() => 
+    waypoints.map(w => ({ id: w.id, name: w.name, ...geoToPixels(w.lat, w.lng, anchor.lat, anchor.lng, zoom) })), 
+  [waypoints, anchor, zoom]);
+
   const rotation = mode === 'heading-up' ? heading : 0;
   const markerRotation = mode === 'heading-up' ? 0 : heading;
+
+  // The cone widens as the fused heading loses confidence and takes the
+  // colour of whichever source dominates, as on the compass bars.
+  const headingCone = useMemo(() => {
+    const confidence = 1 - (1 - gpsConfidence) * (1 - magneticConfidence);
+    const half = toRad(HEADING_CONE_MIN + (1 - confidence) * (HEADING_CONE_MAX - HEADING_CONE_MIN));
+    const x = HEADING_CONE_RADIUS * Math.sin(half);
+    const y = -HEADING_CONE_RADIUS * Math.cos(half);
+    return {
+      d: `M 0 0 L ${-x} ${y} A ${HEADING_CONE_RADIUS} ${HEADING_CONE_RADIUS} 0 0 1 ${x} ${y} Z`,
+      color: gpsConfidence > magneticConfidence ? '34,197,94' : '59,130,246',
+    };
+  }, [gpsConfidence, magneticConfidence]);
   
   const accColor = !accuracy ? 'border-muted/20' 
     : accuracy < 10 ? 'border-green-500/50' 
@@ -865,9 +1224,20 @@ const RadarMapbox = memo(({
             </div>
             <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[200%] h-[200%] pointer-events-none z-10">
               <svg viewBox="-200 -200 400 400" className="w-full h-full overflow-visible">
+                {overlayPath && <path d={overlayPath} fill="none" stroke={IMPORT_COLOR} strokeWidth="2" strokeDasharray="6 4" strokeLinecap="round" strokeLinejoin="round" className="opacity-70" />}
+                {overlayMarkers.map((pt, i) => <circle key={i} cx={pt.x} cy={pt.y} r="3.5" fill={IMPORT_COLOR} stroke="#ffffff" strokeWidth="1" className="opacity-80" />)}
+                {routePath && <path d={routePath} fill="none" stroke={WAYPOINT_COLOR} strokeWidth="2.5" strokeDasharray="2 5" strokeLinecap="round" strokeLinejoin="round" className="opacity-80" />}
+                {routeNextPx && <circle cx={routeNextPx.x} cy={routeNextPx.y} r="7" fill="none" stroke={WAYPOINT_COLOR} strokeWidth="2" className="animate-pulse" />}
+                {waypointMarkers.map(w => (
+                  <g key={w.id} transform={`translate(${w.x}, ${w.y}) rotate(${rotation})`} className="opacity-90">
+                    <path d="M 0 -5 L 5 0 L 0 5 L -5 0 Z" fill={WAYPOINT_COLOR} stroke="#ffffff" strokeWidth="1" />
+                    <text y="-8" textAnchor="middle" fontSize="8" fontWeight="700" fill="#ffffff" stroke="#000000" strokeWidth="2" paintOrder="stroke" className="font-mono">{w.name}</text>
+                  </g>
+                ))}
                 {svgPath && <path d={svgPath} fill="none" stroke="#22c55e" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" className="opacity-60 drop-shadow-[0_0_8px_rgba(34,197,94,0.6)]" />}
                 <g transform={`translate(${userX}, ${userY})`}>
                    <g transform={`rotate(${markerRotation})`}>
+                      <path d={headingCone.d} fill={`rgba(${headingCone.color},0.18)`} stroke={`rgba(${headingCone.color},0.35)`} strokeWidth="0.75" />
                       <path d="M -6 -6 L 0 -18 L 6 -6" fill="rgba(34,197,94,0.9)" />
                       <circle r="4" fill="#22c55e" className="animate-pulse" />
                       <circle r="7" fill="none" stroke="#ffffff" strokeWidth="1.5" className="opacity-90" />
@@ -882,6 +1252,11 @@ const RadarMapbox = memo(({
             <div className="absolute inset-[50%] rounded-full border border-white/5" />
         </div>
         <div className={`absolute inset-0 rounded-full border-[3px] ${accColor} pointer-events-none z-10 opacity-40`} />
+        {celestial && celestialBodies(celestial).map(body => (
+          <div key={body.id} className="absolute inset-0 pointer-events-none z-30" style={{ transform: `rotate(${body.azimuth - rotation}deg)` }}>
+            <div className={`absolute top-1 left-1/2 -translate-x-1/2 w-2.5 h-2.5 rounded-full border border-black/60 ${body.elevation < 0 ? 'opacity-30' : ''}`} style={{ backgroundColor: body.color }} />
+          </div>
+        ))}
         <div className="absolute inset-0 rounded-full pointer-events-none overflow-hidden z-20">
              <div className="absolute inset-[-50%] bg-[conic-gradient(from_0deg,transparent_0deg,transparent_300deg,rgba(34,197,94,0.08)_360deg)] animate-[spin_4s_linear_infinite]" />
         </div>
@@ -939,16 +1314,43 @@ const CompassDisplay = memo(({
   onClick, 
   hasError, 
   permissionGranted,
-  source
+  source,
+  gpsConfidence,
+  magneticConfidence,
+  targetBearing = null,
+  northReference,
+  onNorthReferenceChange,
+  declination,
+  correction,
+  gridAvailable,
+  method,
+  health,
+  celestial = null,
+  headingOffset = null,
+  onResetHeadingOffset
 }: { 
   heading: number | null, 
   trueHeading: number | null, 
   onClick: () => void, 
   hasError: boolean, 
   permissionGranted: boolean,
-  source: 'GPS' | 'MAG'
+  source: HeadingSource,
+  gpsConfidence: number,
+  magneticConfidence: number,
+  targetBearing?: number | null,
+  northReference: NorthReference,
+  onNorthReferenceChange: (reference: NorthReference) => void,
+  declination: number | null,
+  correction: number,
+  gridAvailable: boolean,
+  method: HeadingMethod | null,
+  health: CompassHealth,
+  celestial?: CelestialPositions | null,
+  headingOffset?: number | null,
+  onResetHeadingOffset?: () => void
 }) => {
   const rotation = heading || 0;
+  const isUnreliable = source === 'MAG' && permissionGranted && !health.reliable;
   const directionStr = trueHeading !== null ? getCompassDirection(trueHeading) : "--";
   const displayHeading = trueHeading !== null ? Math.round(trueHeading) : 0;
 
@@ -967,23 +1369,51 @@ const CompassDisplay = memo(({
              <div className="absolute left-2 text-[10px] font-black text-white/30">W</div>
              <div className="absolute top-0 -translate-y-1 w-0 h-0 border-l-[8px] border-l-transparent border-r-[8px] border-r-transparent border-t-[10px] border-t-red-600 drop-shadow-[0_4px_4px_rgba(0,0,0,0.5)] z-20" />
         </div>
-        <div className="absolute inset-4 will-change-transform transition-transform duration-100 ease-linear rounded-full bg-[radial-gradient(circle,rgba(30,30,30,1)_0%,rgba(10,10,10,1)_100%)] border border-white/5" style={{ transform: `rotate(${-rotation}deg)` }}>
+        <div className={`absolute inset-4 will-change-transform transition-transform duration-100 ease-linear rounded-full bg-[radial-gradient(circle,rgba(30,30,30,1)_0%,rgba(10,10,10,1)_100%)] border border-white/5 ${isUnreliable ? 'opacity-40' : ''}`} style={{ transform: `rotate(${-rotation}deg)` }}>
           <svg viewBox="0 0 100 100" className="w-full h-full select-none pointer-events-none p-1">
             <CompassTicks />
+            {celestial && celestialBodies(celestial).map(body => (
+              <g key={body.id} transform={`rotate(${body.azimuth} 50 50)`} className={body.elevation < 0 ? 'opacity-30' : undefined}>
+                <circle cx="50" cy="18" r="2.4" fill={body.color} stroke="#000000" strokeWidth="0.4" />
+              </g>
+            ))}
+            {targetBearing !== null && (
+              <g transform={`rotate(${targetBearing} 50 50)`}>
+                <line x1="50" y1="50" x2="50" y2="14" stroke={WAYPOINT_COLOR} strokeWidth="1.5" strokeLinecap="round" className="opacity-80" />
+                <path d="M 50 8 L 54 16 L 46 16 Z" fill={WAYPOINT_COLOR} />
+              </g>
+            )}
           </svg>
         </div>
         <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 flex flex-col items-center justify-center z-20 pointer-events-none">
-             <span className="text-5xl font-mono font-black tracking-tighter text-white tabular-nums drop-shadow-lg">
-                {permissionGranted || source === 'GPS' ? `${displayHeading}°` : "--"}
-             </span>
+             {isUnreliable ? (
+               <div className="flex flex-col items-center gap-1">
+                 <span className="flex items-center gap-1.5 text-sm font-black uppercase tracking-widest text-yellow-500"><TriangleAlert className="w-4 h-4" /> MAG unreliable</span>
+                 <span className="text-[9px] font-mono text-yellow-500/70">{health.issue && COMPASS_ISSUE_LABELS[health.issue]} · tap to calibrate</span>
+               </div>
+             ) : (
+               <span className="text-5xl font-mono font-black tracking-tighter text-white tabular-nums drop-shadow-lg">
+                  {permissionGranted || source === 'GPS' ? `${displayHeading}°` : "--"}
+               </span>
+             )}
              <div className="flex items-center gap-1 mt-1">
                  <span className={`text-[9px] font-bold px-2 py-0.5 rounded-full border uppercase tracking-wider ${source === 'GPS' ? 'text-green-500 border-green-500/20 bg-green-500/5' : 'text-blue-500 border-blue-500/20 bg-blue-500/5'}`}>
-                 {source}
+                 {source}{source === 'MAG' && method ? ` · ${HEADING_METHOD_LABELS[method]}` : ''}
                  </span>
                  <span className="text-[9px] font-bold text-white/50 tracking-widest uppercase bg-white/5 px-2 py-0.5 rounded-full border border-white/10">
                     {permissionGranted || source === 'GPS' ? directionStr : "---"}
                  </span>
              </div>
+             <div className="flex items-center gap-2 mt-2" aria-label="Heading source confidence">
+                 {([['GPS', gpsConfidence, 'bg-green-500'], ['MAG', magneticConfidence, 'bg-blue-500']] as const).map(([label, value, color]) => (
+                   <div key={label} className="flex items-center gap-1">
+                     <span className="text-[7px] font-bold tracking-widest text-white/40">{label}</span>
+                     <div className="w-6 h-1 rounded-full bg-white/10 overflow-hidden">
+                       <div className={`h-full ${color} transition-[width] duration-300`} style={{ width: `${Math.round(value * 100)}%` }} />
+                     </div>
+                   </div>
+                 ))}
+             </div>
         </div>
         {!permissionGranted && !hasError && source === 'MAG' && (
           <div className="absolute inset-0 flex items-center justify-center rounded-full z-30 bg-black/60 backdrop-blur-sm">
@@ -998,11 +1428,145 @@ const CompassDisplay = memo(({
           </div>
         )}
       </div>
+      <div className="mt-3 flex flex-col items-center gap-1.5">
+        <div className="flex rounded-full border border-white/10 bg-white/5 p-0.5">
+          {NORTH_REFERENCES.map(({ id, label }) => (
+            <button 
+              key={id} 
+              onClick={() => { triggerHaptic(); onNorthReferenceChange(id); }} 
+              disabled={id === 'grid' && !gridAvailable} 
+              type="button" 
+              className={`px-2.5 py-0.5 rounded-full text-[9px] font-bold tracking-widest transition-colors disabled:opacity-30 ${northReference === id ? 'bg-white/10 text-white' : 'text-muted-foreground hover:text-white'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <span className="text-[9px] font-mono text-muted-foreground tabular-nums">
+          DECL {declination !== null ? `${Math.abs(declination).toFixed(1)}°${declination >= 0 ? 'E' : 'W'}` : '--'} · CORR {formatSignedDegrees(correction)}
+        </span>
+        {celestial && (
+          <span className="text-[9px] font-mono text-muted-foreground tabular-nums">
+            {celestialBodies(celestial).map(body => `${body.label} ${Math.round(body.azimuth)}° ${formatSignedDegrees(body.elevation)}`).join(' · ')}
+          </span>
+        )}
+        {headingOffset !== null && (
+          <button 
+            onClick={() => { triggerHaptic(); onResetHeadingOffset?.(); }} 
+            type="button" 
+            className="flex items-center gap-1.5 px-2 py-0.5 rounded-full border border-amber-500/30 bg-amber-500/5 text-[9px] font-mono font-bold text-amber-400 tabular-nums hover:bg-amber-500/10 transition-colors"
+          >
+            <Sun className="w-3 h-3" /> SUN CAL {formatSignedDegrees(headingOffset)} <X className="w-3 h-3" />
+          </button>
+        )}
+      </div>
     </div>
   );
 });
 CompassDisplay.displayName = "CompassDisplay";
 
+const FIGURE_EIGHT_PATH = "M 50 50 C 50 25, 15 25, 15 50 C 15 75, 50 75, 50 50 C 50 25, 85 25, 85 50 C 85 75, 50 75, 50 50 Z";
+
+const CompassCalibrationSheet = memo(({ 
+  open, 
+  onOpenChange, 
+  heading, 
+  pitch, 
+  roll, 
+  health, 
+  onComplete, 
+  onSunSight 
+}: { 
+  open: boolean, 
+  onOpenChange: (open: boolean) => void, 
+  heading: number | null, 
+  pitch: number, 
+  roll: number, 
+  health: CompassHealth, 
+  onComplete: () => void, 
+  onSunSight: (() => void) | null 
+}) => {
+  const trackerRef = useRef(createCalibrationTracker());
+  const [calibration, setCalibration] = useState<CalibrationProgress>(() => trackerRef.current.reset());
+
+  useEffect(() => {
+    if (open) setCalibration(trackerRef.current.reset());
+  }, [open]);
+
+  useEffect(() => {
+    if (!open || heading === null || calibration.complete) return;
+    const next = trackerRef.current.update(heading, pitch, roll);
+    setCalibration(next);
+    if (next.complete) {
+      triggerHaptic();
+      onComplete();
+    }
+  }, [open, heading, pitch, roll, calibration.complete, onComplete]);
+
+  const percent = Math.round(calibration.progress * 100);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-[#0c0c0c] border-white/10 text-white flex flex-col items-center gap-5 rounded-t-[2rem]">
+        <SheetHeader className="w-full">
+          <SheetTitle className="text-sm font-black tracking-[0.2em] uppercase text-white/80">Compass<span className="text-white/30">.Calibration</span></SheetTitle>
+          <SheetDescription className="text-[10px] uppercase tracking-wider">
+            {calibration.complete ? "Calibrated" : "Move the phone in a slow figure eight, tilting it as you go"}
+          </SheetDescription>
+        </SheetHeader>
+
+        <svg viewBox="0 0 100 100" className="w-48 h-48">
+          {calibration.headingBins.map((covered, i) => (
+            <path 
+              key={i} 
+              d="M 50 3 A 47 47 0 0 1 60.6 4.2" 
+              transform={`rotate(${i * 15} 50 50)`} 
+              fill="none" 
+              strokeWidth="3" 
+              className={covered ? "stroke-green-500" : "stroke-white/10"} 
+            />
+          ))}
+          <path d={FIGURE_EIGHT_PATH} fill="none" strokeWidth="1.5" strokeDasharray="3 3" className="stroke-white/20" />
+          {!calibration.complete && (
+            <circle r="4" className="fill-blue-500">
+              <animateMotion dur="4s" repeatCount="indefinite" path={FIGURE_EIGHT_PATH} />
+            </circle>
+          )}
+        </svg>
+
+        <div className="w-full space-y-1.5">
+          <div className="flex justify-between text-[9px] uppercase font-bold tracking-widest text-muted-foreground">
+            <span>Coverage</span><span className="font-mono text-white">{percent}%</span>
+          </div>
+          <div className="h-1.5 w-full rounded-full bg-white/5 overflow-hidden">
+            <div className={`h-full transition-all duration-300 ${calibration.complete ? 'bg-green-500' : 'bg-blue-500'}`} style={{ width: `${percent}%` }} />
+          </div>
+          <div className="grid grid-cols-4 gap-1 pt-1">
+            {([['pitchUp', 'Tilt up'], ['pitchDown', 'Tilt down'], ['rollLeft', 'Roll left'], ['rollRight', 'Roll right']] as const).map(([key, label]) => (
+              <span key={key} className={`text-center py-1 rounded-md border text-[9px] font-bold uppercase tracking-wider ${calibration.tilts[key] ? 'bg-green-500/10 border-green-500/40 text-green-500' : 'bg-white/5 border-white/10 text-muted-foreground'}`}>{label}</span>
+            ))}
+          </div>
+        </div>
+
+        {!health.reliable && health.issue && (
+          <p className="w-full text-[10px] font-mono text-yellow-500">{COMPASS_ISSUE_LABELS[health.issue]}. Move away from metal, magnets and electronics.</p>
+        )}
+
+        {onSunSight && (
+          <button onClick={() => { triggerHaptic(); onSunSight(); }} type="button" className="w-full py-2 rounded-lg border border-amber-500/30 bg-amber-500/5 text-amber-400 text-[10px] font-bold uppercase tracking-wider flex items-center justify-center gap-2 transition-all active:scale-95 hover:bg-amber-500/10">
+            <Sun className="w-3.5 h-3.5" /> Align to the sun
+          </button>
+        )}
+
+        <button onClick={() => onOpenChange(false)} type="button" className={`w-full py-2 rounded-lg border text-[10px] font-bold uppercase tracking-wider transition-all active:scale-95 ${calibration.complete ? 'bg-green-500/10 border-green-500/40 text-green-500' : 'bg-white/5 border-white/10 text-muted-foreground hover:text-white'}`}>
+          {calibration.complete ? "Done" : "Close"}
+        </button>
+      </SheetContent>
+    </Sheet>
+  );
+});
+CompassCalibrationSheet.displayName = "CompassCalibrationSheet";
+
 const DataCard = memo(({ children, className }: { children: React.ReactNode, className?: string }) => (
     <div className={`relative p-4 rounded-xl bg-[#111]/60 border border-white/5 backdrop-blur-md overflow-hidden ${className}`}>
         <div className="absolute top-0 left-0 w-2 h-2 border-l border-t border-white/20" />
@@ -1014,8 +1578,8 @@ const DataCard = memo(({ children, className }: { children: React.ReactNode, cla
 ));
 DataCard.displayName = "DataCard";
 
-const StatCard = memo(({ icon: Icon, label, value, subValue, unit }: { icon: any, label: string, value: string, subValue?: string, unit?: string }) => (
-  <DataCard className="flex flex-col items-start justify-between min-w-[90px] h-full shadow-lg group hover:border-white/10 transition-colors">
+const StatCard = memo(({ icon: Icon, label, value, subValue, unit, className }: { icon: any, label: string, value: string, subValue?: string, unit?: string, className?: string }) => (
+  <DataCard className={`flex flex-col items-start justify-between min-w-0 h-full shadow-lg group hover:border-white/10 transition-colors !p-3 ${className ?? ''}`}>
     <div className="flex w-full items-center justify-between mb-2 opacity-60">
       <span className="text-[9px] uppercase tracking-widest font-bold text-muted-foreground group-hover:text-white transition-colors">{label}</span>
       <Icon className="w-3 h-3 text-white/50" />
@@ -1031,64 +1595,257 @@ const StatCard = memo(({ icon: Icon, label, value, subValue, unit }: { icon: any
 ));
 StatCard.displayName = "StatCard";
 
-const SolarCard = memo(({ sunrise, sunset }: { sunrise: string[], sunset: string[] }) => {
-  const now = new Date().getTime();
-  const riseToday = new Date(sunrise[0]).getTime();
-  const setToday = new Date(sunset[0]).getTime();
-  const riseTomorrow = new Date(sunrise[1]).getTime();
-
-  let isDay = false;
-  let nextEventLabel = "Sunrise";
-  let nextEventTime = riseToday;
-  let progress = 0;
-
-  if (now < riseToday) {
-    isDay = false;
-    nextEventLabel = "Sunrise";
-    nextEventTime = riseToday;
-    const prevSunset = setToday - (24 * 3600 * 1000); 
-    const nightLength = riseToday - prevSunset;
-    progress = 100 - ((riseToday - now) / nightLength) * 100;
-  } else if (now >= riseToday && now < setToday) {
-    isDay = true;
-    nextEventLabel = "Sunset";
-    nextEventTime = setToday;
-    const dayLength = setToday - riseToday;
-    progress = ((now - riseToday) / dayLength) * 100;
-  } else {
-    isDay = false;
-    nextEventLabel = "Sunrise";
-    nextEventTime = riseTomorrow;
-    const nightLength = riseTomorrow - setToday;
-    progress = ((now - setToday) / nightLength) * 100;
+const formatSolarTime = (date: Date | null) => date ? formatTime(date.toISOString()) : "--:--";
+
+const formatSolarRange = (range: TimeRange) => 
+  range.start || range.end ? `${formatSolarTime(range.start)}–${formatSolarTime(range.end)}` : "--";
+
+const SolarCard = memo(({ lat, lng }: { lat: number, lng: number }) => {
+  const now = Date.now();
+  // Events only move by seconds over a few km, so recompute per ~1 km and per
+  // local solar day, the day getSolarTimes resolves to.
+  const latKey = Math.round(lat * 100) / 100;
+  const lngKey = Math.round(lng * 100) / 100;
+  const dayKey = solarDayIndex(now, lngKey);
+  const { yesterday, today, tomorrow } = useMemo(() => {
+    const reference = new Date();
+    return {
+      yesterday: getSolarTimes(shiftDays(reference, -1), latKey, lngKey),
+      today: getSolarTimes(reference, latKey, lngKey),
+      tomorrow: getSolarTimes(shiftDays(reference, 1), latKey, lngKey),
+    };
+  }, [latKey, lngKey, dayKey]);
+
+  let isDay = today.noonElevation > 0;
+  let nextEventLabel: "RISE" | "SET" | null = null;
+  let nextEventTime: Date | null = null;
+  let progress = isDay ? 100 : 0;
+
+  if (today.sunrise && today.sunset) {
+    const rise = today.sunrise.getTime();
+    const set = today.sunset.getTime();
+    if (now < rise) {
+      isDay = false;
+      nextEventLabel = "RISE";
+      nextEventTime = today.sunrise;
+      const prevSunset = yesterday.sunset?.getTime() ?? set - (24 * 3600 * 1000);
+      progress = ((now - prevSunset) / (rise - prevSunset)) * 100;
+    } else if (now < set) {
+      isDay = true;
+      nextEventLabel = "SET";
+      nextEventTime = today.sunset;
+      progress = ((now - rise) / (set - rise)) * 100;
+    } else {
+      isDay = false;
+      nextEventLabel = "RISE";
+      nextEventTime = tomorrow.sunrise;
+      const nextRise = tomorrow.sunrise?.getTime() ?? rise + (24 * 3600 * 1000);
+      progress = ((now - set) / (nextRise - set)) * 100;
+    }
   }
   progress = Math.min(Math.max(progress, 0), 100);
 
+  const twilightRows = [
+    { label: "Astro", dawn: formatSolarTime(today.astronomicalDawn), dusk: formatSolarTime(today.astronomicalDusk) },
+    { label: "Naut", dawn: formatSolarTime(today.nauticalDawn), dusk: formatSolarTime(today.nauticalDusk) },
+    { label: "Civil", dawn: formatSolarTime(today.civilDawn), dusk: formatSolarTime(today.civilDusk) },
+    { label: "Blue", dawn: formatSolarRange(today.morningBlueHour), dusk: formatSolarRange(today.eveningBlueHour) },
+    { label: "Golden", dawn: formatSolarRange(today.morningGoldenHour), dusk: formatSolarRange(today.eveningGoldenHour) },
+  ];
+
   return (
     <DataCard className="w-full space-y-3 shadow-lg">
       <div className="flex items-center justify-between opacity-80">
          <div className="flex items-center gap-2">
             {isDay ? <Sun className="w-3.5 h-3.5 text-amber-400" /> : <Moon className="w-3.5 h-3.5 text-blue-300" />}
-            <span className="text-[9px] uppercase font-bold tracking-widest">{isDay ? "Daylight" : "Night Ops"}</span>
+            <span className="text-[9px] uppercase font-bold tracking-widest">
+              {nextEventLabel ? (isDay ? "Daylight" : "Night Ops") : (isDay ? "Polar Day" : "Polar Night")}
+            </span>
          </div>
          <span className="text-[10px] font-mono opacity-60">
-           {formatTime(new Date(nextEventTime).toISOString())} {nextEventLabel === "Sunset" ? "SET" : "RISE"}
+           {nextEventLabel ? `${formatSolarTime(nextEventTime)} ${nextEventLabel}` : "NO RISE/SET"}
          </span>
       </div>
       <div className="relative w-full h-1.5 bg-black/60 rounded-full overflow-hidden border border-white/5">
          <div className={`absolute top-0 bottom-0 left-0 shadow-[0_0_8px_rgba(255,255,255,0.4)] ${isDay ? 'bg-amber-500' : 'bg-blue-500'}`} style={{ width: `${progress}%`, transition: 'width 1s linear' }} />
       </div>
       <div className="flex justify-between text-[8px] font-mono text-muted-foreground uppercase">
-         <div className="flex items-center gap-1"><Sunrise className="w-3 h-3" /> {formatTime(sunrise[0])}</div>
-         <div className="flex items-center gap-1">{formatTime(sunset[0])} <Sunset className="w-3 h-3" /></div>
+         <div className="flex items-center gap-1"><Sunrise className="w-3 h-3" /> {formatSolarTime(today.sunrise)}</div>
+         <div className="tabular-nums">NOON {formatSolarTime(today.solarNoon)} · {today.noonElevation.toFixed(0)}°</div>
+         <div className="flex items-center gap-1">{formatSolarTime(today.sunset)} <Sunset className="w-3 h-3" /></div>
+      </div>
+      <div className="grid grid-cols-[auto_1fr_1fr] gap-x-3 gap-y-1 pt-2 border-t border-white/5 text-[8px] font-mono uppercase tabular-nums">
+         <span />
+         <span className="text-muted-foreground/50 font-bold tracking-widest">Dawn</span>
+         <span className="text-muted-foreground/50 font-bold tracking-widest text-right">Dusk</span>
+         {twilightRows.map(row => (
+           <Fragment key={row.label}>
+             <span className="text-muted-foreground/70 font-bold tracking-widest">{row.label}</span>
+             <span className="text-white/80">{row.dawn}</span>
+             <span className="text-white/80 text-right">{row.dusk}</span>
+           </Fragment>
+         ))}
       </div>
     </DataCard>
   );
 });
 SolarCard.displayName = "SolarCard";
 
-const CoordinateRow = memo(({ label, value, type }: { label: string; value: number; type: 'lat' | 'lng' }) => {
-  const formattedValue = useMemo(() => formatCoordinate(value, type), [value, type]);
+// Lit part of the disc as seen from the northern hemisphere: the outer limb
+// is a half circle and the terminator a half ellipse.
+const MoonPhaseIcon = memo(({ fraction, waxing, className }: { fraction: number, waxing: boolean, className?: string }) => {
+  const r = 10;
+  const rx = Math.abs(1 - 2 * fraction) * r;
+  const lit = `M 0 ${-r} A ${r} ${r} 0 0 1 0 ${r} A ${rx} ${r} 0 0 ${fraction > 0.5 ? 1 : 0} 0 ${-r} Z`;
+  return (
+    <svg viewBox="-12 -12 24 24" className={className} aria-hidden="true">
+      <circle r={r} fill="#1e293b" stroke="#ffffff" strokeOpacity="0.15" strokeWidth="0.75" />
+      <path d={lit} fill={MOON_COLOR} transform={waxing ? undefined : 'scale(-1, 1)'} />
+    </svg>
+  );
+});
+MoonPhaseIcon.displayName = "MoonPhaseIcon";
+
+const MoonCard = memo(({ lat, lng, position }: { lat: number, lng: number, position: MoonPosition }) => {
+  const now = Date.now();
+  const latKey = Math.round(lat * 100) / 100;
+  const lngKey = Math.round(lng * 100) / 100;
+  const dayKey = solarDayIndex(now, lngKey);
+  const hourKey = Math.floor(now / (3600 * 1000));
+  const times = useMemo(() => getMoonTimes(new Date(), latKey, lngKey), [latKey, lngKey, dayKey]);
+  const illumination = useMemo(() => getMoonIllumination(new Date()), [hourKey]);
+
+  return (
+    <DataCard className="w-full flex items-center gap-4 shadow-lg">
+      <MoonPhaseIcon fraction={illumination.fraction} waxing={illumination.waxing} className="w-10 h-10 shrink-0" />
+      <div className="flex-1 min-w-0 space-y-1.5">
+        <div className="flex items-center justify-between">
+          <span className="text-[9px] uppercase font-bold tracking-widest opacity-80">{MOON_PHASE_LABELS[illumination.name]}</span>
+          <span className="text-[10px] font-mono opacity-60 tabular-nums">{Math.round(illumination.fraction * 100)}% LIT</span>
+        </div>
+        <div className="flex justify-between text-[8px] font-mono text-muted-foreground uppercase tabular-nums">
+          <span>
+            {times.alwaysUp ? "UP ALL DAY" : times.alwaysDown ? "DOWN ALL DAY" : `RISE ${formatSolarTime(times.rise)} · SET ${formatSolarTime(times.set)}`}
+          </span>
+          <span>AZ {Math.round(position.azimuth)}° · EL {formatSignedDegrees(position.elevation)}</span>
+        </div>
+      </div>
+    </DataCard>
+  );
+});
+MoonCard.displayName = "MoonCard";
+
+const GoToCard = memo(({ 
+  target, 
+  solution, 
+  heading, 
+  arrived, 
+  arrivalRadius, 
+  onArrivalRadiusChange, 
+  onStop, 
+  units 
+}: { 
+  target: NavTarget, 
+  solution: GoToSolution, 
+  heading: number | null, 
+  arrived: boolean, 
+  arrivalRadius: number, 
+  onArrivalRadiusChange: (radius: number) => void, 
+  onStop: () => void, 
+  units: UnitSystem 
+}) => {
+  const [radius, setRadius] = useState(arrivalRadius);
+  const turn = heading !== null ? ((solution.bearing - heading + 540) % 360) - 180 : null;
+  const { crossTrack } = solution;
+
+  return (
+    <DataCard className={`space-y-3 ${arrived ? 'border-green-500/40' : 'border-orange-500/30'}`}>
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] uppercase font-bold text-orange-400 tracking-widest flex items-center gap-2 min-w-0">
+          <Target className="w-3 h-3 shrink-0" /> <span className="truncate">Go to {target.name}</span>
+        </span>
+        <button onClick={() => { triggerHaptic(); onStop(); }} aria-label="Stop navigation" className="p-1 rounded-md text-muted-foreground hover:text-white hover:bg-white/10"><X className="w-3.5 h-3.5" /></button>
+      </div>
+      <div className="flex items-end justify-between">
+        <div className="flex flex-col">
+          <span className="text-2xl font-mono font-bold tabular-nums leading-none">{formatShortDistance(solution.distance, units)}</span>
+          <span className={`text-[9px] font-bold uppercase tracking-widest mt-1 ${arrived ? 'text-green-500' : 'text-muted-foreground'}`}>
+            {arrived ? 'Arrived' : turn === null ? '--' : Math.abs(turn) < 5 ? 'On bearing' : `Turn ${Math.round(Math.abs(turn))}° ${turn > 0 ? 'R' : 'L'}`}
+          </span>
+        </div>
+        <div className="grid grid-cols-3 gap-3 text-right">
+          <div className="flex flex-col"><span className="text-[8px] uppercase tracking-widest text-muted-foreground">BRG</span><span className="text-xs font-mono font-bold tabular-nums">{Math.round(solution.bearing)}°</span></div>
+          <div className="flex flex-col"><span className="text-[8px] uppercase tracking-widest text-muted-foreground">ETA</span><span className="text-xs font-mono font-bold tabular-nums">{solution.eta !== null ? formatDuration(solution.eta) : '--'}</span></div>
+          <div className="flex flex-col"><span className="text-[8px] uppercase tracking-widest text-muted-foreground">XTE</span><span className="text-xs font-mono font-bold tabular-nums">{crossTrack !== null ? `${formatShortDistance(Math.abs(crossTrack), units)} ${crossTrack >= 0 ? 'R' : 'L'}` : '--'}</span></div>
+        </div>
+      </div>
+      <div className="space-y-1.5">
+        <div className="flex justify-between text-[9px] uppercase font-bold tracking-widest text-muted-foreground"><span>Arrival radius</span><span className="font-mono text-white">{formatShortDistance(radius, units)}</span></div>
+        <Slider min={ARRIVAL_RADIUS_RANGE.min} max={ARRIVAL_RADIUS_RANGE.max} step={ARRIVAL_RADIUS_RANGE.step} value={[radius]} onValueChange={([v]) => setRadius(v)} onValueCommit={([v]) => onArrivalRadiusChange(v)} />
+      </div>
+    </DataCard>
+  );
+});
+GoToCard.displayName = "GoToCard";
+
+const RouteCard = memo(({ 
+  route, 
+  progress, 
+  speed, 
+  offRouteDistance, 
+  onOffRouteDistanceChange, 
+  onStop, 
+  units 
+}: { 
+  route: Route, 
+  progress: RouteProgress, 
+  speed: number | null, 
+  offRouteDistance: number, 
+  onOffRouteDistanceChange: (distance: number) => void, 
+  onStop: () => void, 
+  units: UnitSystem 
+}) => {
+  const [threshold, setThreshold] = useState(offRouteDistance);
+  const eta = speed !== null && speed > 0.3 ? (progress.remaining / speed) * 1000 : null;
+  const complete = progress.total > 0 ? Math.min(100, (1 - progress.remaining / progress.total) * 100) : 0;
+
+  return (
+    <DataCard className={`space-y-3 ${progress.isOffRoute ? 'border-red-500/50' : progress.finished ? 'border-green-500/40' : 'border-orange-500/30'}`}>
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] uppercase font-bold text-orange-400 tracking-widest flex items-center gap-2 min-w-0">
+          <Spline className="w-3 h-3 shrink-0" /> <span className="truncate">{route.name}</span>
+        </span>
+        <div className="flex items-center gap-2">
+          <span className="text-[9px] font-mono text-muted-foreground">LEG {Math.min(progress.legIndex + 1, progress.legCount)}/{progress.legCount}</span>
+          <button onClick={() => { triggerHaptic(); onStop(); }} aria-label="Stop route" className="p-1 rounded-md text-muted-foreground hover:text-white hover:bg-white/10"><X className="w-3.5 h-3.5" /></button>
+        </div>
+      </div>
+      <div className="flex items-end justify-between">
+        <div className="flex flex-col">
+          <span className="text-2xl font-mono font-bold tabular-nums leading-none">{formatShortDistance(progress.remaining, units)}</span>
+          <span className={`text-[9px] font-bold uppercase tracking-widest mt-1 ${progress.isOffRoute ? 'text-red-500 animate-pulse' : progress.finished ? 'text-green-500' : 'text-muted-foreground'}`}>
+            {progress.finished ? 'Route complete' : progress.isOffRoute ? `Off route ${formatShortDistance(progress.offRouteDistance, units)}` : 'Remaining'}
+          </span>
+        </div>
+        <div className="grid grid-cols-3 gap-3 text-right">
+          <div className="flex flex-col"><span className="text-[8px] uppercase tracking-widest text-muted-foreground">NEXT</span><span className="text-xs font-mono font-bold tabular-nums">{formatShortDistance(progress.distanceToNext, units)}</span></div>
+          <div className="flex flex-col"><span className="text-[8px] uppercase tracking-widest text-muted-foreground">BRG</span><span className="text-xs font-mono font-bold tabular-nums">{Math.round(progress.bearingToNext)}°</span></div>
+          <div className="flex flex-col"><span className="text-[8px] uppercase tracking-widest text-muted-foreground">ETA</span><span className="text-xs font-mono font-bold tabular-nums">{eta !== null ? formatDuration(eta) : '--'}</span></div>
+        </div>
+      </div>
+      <div className="relative w-full h-1 bg-black/60 rounded-full overflow-hidden border border-white/5">
+        <div className="absolute inset-y-0 left-0 bg-orange-500" style={{ width: `${complete}%` }} />
+      </div>
+      <div className="space-y-1.5">
+        <div className="flex justify-between text-[9px] uppercase font-bold tracking-widest text-muted-foreground"><span>Off-route alert</span><span className="font-mono text-white">{formatShortDistance(threshold, units)}</span></div>
+        <Slider min={OFF_ROUTE_RANGE.min} max={OFF_ROUTE_RANGE.max} step={OFF_ROUTE_RANGE.step} value={[threshold]} onValueChange={([v]) => setThreshold(v)} onValueCommit={([v]) => onOffRouteDistanceChange(v)} />
+      </div>
+    </DataCard>
+  );
+});
+RouteCard.displayName = "RouteCard";
+
+const CoordinateRow = memo(({ label, formattedValue }: { label: string; formattedValue: string }) => {
   const [copied, setCopied] = useState(false);
   const handleCopy = async () => {
     triggerHaptic();
@@ -1114,8 +1871,118 @@ const CoordinateRow = memo(({ label, value, type }: { label: string; value: numb
 });
 CoordinateRow.displayName = "CoordinateRow";
 
-const FullMapDrawer = memo(({ isOpen, onClose, lat, lng }: { isOpen: boolean, onClose: () => void, lat: number, lng: number }) => {
+const LocationCodeRow = memo(({ 
+  label, 
+  code, 
+  onShowOnMap, 
+  children 
+}: { 
+  label: string, 
+  code: string, 
+  onShowOnMap: () => void, 
+  children?: React.ReactNode 
+}) => (
+  <div className="flex gap-1.5">
+    <div className="flex-1 min-w-0"><CoordinateRow label={label} formattedValue={code} /></div>
+    {children}
+    <button onClick={onShowOnMap} type="button" aria-label={`Show ${label} cell on map`} className="w-10 shrink-0 rounded-lg bg-black/20 hover:bg-white/5 text-muted-foreground hover:text-sky-400 flex items-center justify-center transition-colors active:scale-95">
+      <MapIcon className="w-3.5 h-3.5" />
+    </button>
+  </div>
+));
+LocationCodeRow.displayName = "LocationCodeRow";
+
+// Runs `fn` once the map style is ready (sources/layers can't be added before).
+// Readiness is tracked once per map: isStyleLoaded() turns false again while
+// tiles load or a source reloads after setData, and 'load' never fires twice,
+// so waiting on either would drop updates. Until the first load, callbacks
+// queue up and run in order.
+const styleReady = new WeakMap<mapboxgl.Map, (() => void)[] | true>();
+
+const trackStyleReady = (m: mapboxgl.Map) => {
+  if (styleReady.has(m)) return;
+  styleReady.set(m, []);
+  m.once('load', () => {
+    const queue = styleReady.get(m);
+    styleReady.set(m, true);
+    if (Array.isArray(queue)) queue.forEach(fn => fn());
+  });
+};
+
+const whenStyleLoaded = (m: mapboxgl.Map, fn: () => void) => {
+  if (!styleReady.has(m) && m.isStyleLoaded()) styleReady.set(m, true);
+  trackStyleReady(m);
+  const state = styleReady.get(m);
+  if (state === true) fn();
+  else state?.push(fn);
+};
+
+const upsertGeoJSONSource = (m: mapboxgl.Map, id: string, data: GeoJSON.Feature | GeoJSON.FeatureCollection, layers: mapboxgl.AnyLayer[]) => {
+  const source = m.getSource(id) as mapboxgl.GeoJSONSource | undefined;
+  if (source) source.setData(data);
+  else m.addSource(id, { type: 'geojson', data });
+  layers.forEach(layer => { if (!m.getLayer(layer.id)) m.addLayer(layer); });
+};
+
+// Routes win over tracks; a file with only waypoints is followed in file order.
+const datasetToRoute = (dataset: ImportedDataset): Route | null => {
+  const line = dataset.lines.find(l => l.kind === 'route') ?? dataset.lines[0];
+  if (line) {
+    const points = line.segments.flat();
+    return points.length > 1 ? { name: line.name ?? dataset.name, points } : null;
+  }
+  return dataset.waypoints.length > 1 
+    ? { name: dataset.name, points: dataset.waypoints.map(w => ({ lat: w.lat, lng: w.lng, name: w.name ?? undefined })) } 
+    : null;
+};
+
+const importedToGeoJSON = (datasets: ImportedDataset[]): GeoJSON.FeatureCollection => ({
+  type: 'FeatureCollection',
+  features: datasets.flatMap(d => [
+    ...d.lines.map((line): GeoJSON.Feature => ({
+      type: 'Feature',
+      properties: { name: line.name ?? d.name },
+      geometry: { type: 'MultiLineString', coordinates: line.segments.map(seg => seg.map(v => [v.lng, v.lat])) },
+    })),
+    ...d.waypoints.map((w): GeoJSON.Feature => ({
+      type: 'Feature',
+      properties: { name: w.name ?? '' },
+      geometry: { type: 'Point', coordinates: [w.lng, w.lat] },
+    })),
+  ]),
+});
+
+const FullMapDrawer = memo(({ 
+  isOpen, 
+  onClose, 
+  lat, 
+  lng, 
+  overlayTrack,
+  imported = [],
+  waypoints = EMPTY_WAYPOINTS,
+  geofences = EMPTY_GEOFENCES,
+  drawMode = null,
+  onDrawComplete,
+  onDrawCancel,
+  highlightCell = null,
+  focusBounds
+}: { 
+  isOpen: boolean, 
+  onClose: () => void, 
+  lat: number, 
+  lng: number, 
+  overlayTrack?: SavedTrack | null,
+  imported?: ImportedDataset[],
+  waypoints?: Waypoint[],
+  geofences?: Geofence[],
+  drawMode?: GeofenceShape['kind'] | null,
+  onDrawComplete?: (shape: GeofenceShape) => void,
+  onDrawCancel?: () => void,
+  highlightCell?: { label: string, bounds: BoundingBox } | null,
+  focusBounds?: BoundingBox | null
+}) => {
   const [copied, setCopied] = useState(false);
+  const [draft, setDraft] = useState<LatLng[]>([]);
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
   const marker = useRef<mapboxgl.Marker | null>(null);
@@ -1132,6 +1999,7 @@ const FullMapDrawer = memo(({ isOpen, onClose, lat, lng }: { isOpen: boolean, on
         zoom: 16,
         attributionControl: false
       });
+      trackStyleReady(map.current);
       map.current.addControl(new mapboxgl.AttributionControl({ compact: true }), 'bottom-right');
       const el = document.createElement('div');
       el.className = 'marker';
@@ -1155,10 +2023,126 @@ const FullMapDrawer = memo(({ isOpen, onClose, lat, lng }: { isOpen: boolean, on
 
   useEffect(() => {
     if (isOpen && map.current) {
-      setTimeout(() => { map.current?.resize(); map.current?.flyTo({ center: [lng, lat] }); }, 300); 
+      setTimeout(() => { 
+        map.current?.resize(); 
+        if (!focusBounds) map.current?.flyTo({ center: [lng, lat] }); 
+      }, 300); 
     }
   }, [isOpen]);
 
+  useEffect(() => {
+    const m = map.current;
+    if (!isOpen || !m) return;
+    whenStyleLoaded(m, () => upsertGeoJSONSource(m, 'library-track', {
+      type: 'Feature',
+      properties: {},
+      geometry: { type: 'MultiLineString', coordinates: overlayTrack ? splitSegments(overlayTrack.points).map(seg => seg.map(p => [p.lng, p.lat])) : [] },
+    }, [
+      { id: 'library-track', type: 'line', source: 'library-track', layout: { 'line-cap': 'round', 'line-join': 'round' }, paint: { 'line-color': '#f59e0b', 'line-width': 3.5, 'line-opacity': 0.9 } },
+    ]));
+  }, [isOpen, overlayTrack]);
+
+  useEffect(() => {
+    const m = map.current;
+    if (!isOpen || !m) return;
+    whenStyleLoaded(m, () => upsertGeoJSONSource(m, 'imported', importedToGeoJSON(imported), [
+      { id: 'imported-lines', type: 'line', source: 'imported', filter: ['!=', ['geometry-type'], 'Point'], layout: { 'line-cap': 'round', 'line-join': 'round' }, paint: { 'line-color': IMPORT_COLOR, 'line-width': 3, 'line-opacity': 0.85, 'line-dasharray': [2, 1] } },
+      { id: 'imported-points', type: 'circle', source: 'imported', filter: ['==', ['geometry-type'], 'Point'], paint: { 'circle-radius': 5, 'circle-color': IMPORT_COLOR, 'circle-stroke-width': 1.5, 'circle-stroke-color': '#ffffff' } },
+    ]));
+  }, [isOpen, imported]);
+
+  useEffect(() => {
+    const m = map.current;
+    if (!isOpen || !m) return;
+    whenStyleLoaded(m, () => upsertGeoJSONSource(m, 'waypoints', {
+      type: 'FeatureCollection',
+      features: waypoints.map((w): GeoJSON.Feature => ({ type: 'Feature', properties: { name: w.name }, geometry: { type: 'Point', coordinates: [w.lng, w.lat] } })),
+    }, [
+      { id: 'waypoints', type: 'circle', source: 'waypoints', paint: { 'circle-radius': 6, 'circle-color': WAYPOINT_COLOR, 'circle-stroke-width': 2, 'circle-stroke-color': '#ffffff' } },
+      { id: 'waypoint-labels', type: 'symbol', source: 'waypoints', layout: { 'text-field': ['get', 'name'], 'text-size': 11, 'text-offset': [0, 1.2], 'text-anchor': 'top', 'text-font': ['DIN Pro Medium', 'Arial Unicode MS Regular'] }, paint: { 'text-color': '#ffffff', 'text-halo-color': '#000000', 'text-halo-width': 1.5 } },
+    ]));
+  }, [isOpen, waypoints]);
+
+  useEffect(() => {
+    const m = map.current;
+    if (!isOpen || !m) return;
+    whenStyleLoaded(m, () => upsertGeoJSONSource(m, 'geofences', {
+      type: 'FeatureCollection',
+      features: geofences.map((f): GeoJSON.Feature => ({ type: 'Feature', properties: { name: f.name }, geometry: { type: 'Polygon', coordinates: [geofenceRing(f.shape)] } })),
+    }, [
+      { id: 'geofences-fill', type: 'fill', source: 'geofences', paint: { 'fill-color': GEOFENCE_COLOR, 'fill-opacity': 0.12 } },
+      { id: 'geofences-line', type: 'line', source: 'geofences', paint: { 'line-color': GEOFENCE_COLOR, 'line-width': 2 } },
+      { id: 'geofences-label', type: 'symbol', source: 'geofences', layout: { 'text-field': ['get', 'name'], 'text-size': 11, 'text-font': ['DIN Pro Medium', 'Arial Unicode MS Regular'] }, paint: { 'text-color': GEOFENCE_COLOR, 'text-halo-color': '#000000', 'text-halo-width': 1.5 } },
+    ]));
+  }, [isOpen, geofences]);
+
+  useEffect(() => {
+    const m = map.current;
+    if (!isOpen || !m) return;
+    const features: GeoJSON.Feature[] = [];
+    if (highlightCell) {
+      const { minLat, minLng, maxLat, maxLng } = highlightCell.bounds;
+      features.push({ type: 'Feature', properties: { label: highlightCell.label }, geometry: { type: 'Polygon', coordinates: [[[minLng, minLat], [maxLng, minLat], [maxLng, maxLat], [minLng, maxLat], [minLng, minLat]]] } });
+    }
+    whenStyleLoaded(m, () => upsertGeoJSONSource(m, 'location-code', { type: 'FeatureCollection', features }, [
+      { id: 'location-code-fill', type: 'fill', source: 'location-code', paint: { 'fill-color': CODE_CELL_COLOR, 'fill-opacity': 0.15 } },
+      { id: 'location-code-line', type: 'line', source: 'location-code', paint: { 'line-color': CODE_CELL_COLOR, 'line-width': 2 } },
+      { id: 'location-code-label', type: 'symbol', source: 'location-code', layout: { 'text-field': ['get', 'label'], 'text-size': 12, 'text-font': ['DIN Pro Medium', 'Arial Unicode MS Regular'] }, paint: { 'text-color': CODE_CELL_COLOR, 'text-halo-color': '#000000', 'text-halo-width': 1.5 } },
+    ]));
+  }, [isOpen, highlightCell]);
+
+  // Drawing: a circle is centre then edge; a polygon collects taps until Finish.
+  useEffect(() => {
+    const m = map.current;
+    setDraft([]);
+    if (!isOpen || !m || !drawMode) return;
+    const onClick = (e: mapboxgl.MapMouseEvent) => {
+      triggerHaptic();
+      setDraft(prev => [...prev, { lat: e.lngLat.lat, lng: e.lngLat.lng }]);
+    };
+    m.getCanvas().style.cursor = 'crosshair';
+    m.on('click', onClick);
+    return () => { m.off('click', onClick); m.getCanvas().style.cursor = ''; };
+  }, [isOpen, drawMode]);
+
+  useEffect(() => {
+    if (drawMode !== 'circle' || draft.length < 2) return;
+    const [center, edge] = draft;
+    setDraft([]);
+    onDrawComplete?.({ kind: 'circle', center, radius: getDistance(center.lat, center.lng, edge.lat, edge.lng) });
+  }, [drawMode, draft, onDrawComplete]);
+
+  useEffect(() => {
+    const m = map.current;
+    if (!isOpen || !m) return;
+    const outline = drawMode === 'polygon' && draft.length > 1 ? [...draft, draft[0]] : [];
+    whenStyleLoaded(m, () => upsertGeoJSONSource(m, 'geofence-draft', {
+      type: 'FeatureCollection',
+      features: [
+        ...draft.map((p): GeoJSON.Feature => ({ type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: [p.lng, p.lat] } })),
+        { type: 'Feature', properties: {}, geometry: { type: 'LineString', coordinates: outline.map(p => [p.lng, p.lat]) } },
+      ],
+    }, [
+      { id: 'geofence-draft-line', type: 'line', source: 'geofence-draft', filter: ['==', ['geometry-type'], 'LineString'], paint: { 'line-color': GEOFENCE_COLOR, 'line-width': 2, 'line-dasharray': [2, 2] } },
+      { id: 'geofence-draft-points', type: 'circle', source: 'geofence-draft', filter: ['==', ['geometry-type'], 'Point'], paint: { 'circle-radius': 5, 'circle-color': GEOFENCE_COLOR, 'circle-stroke-width': 1.5, 'circle-stroke-color': '#ffffff' } },
+    ]));
+  }, [isOpen, drawMode, draft]);
+
+  const finishPolygon = () => {
+    if (draft.length < 3) return;
+    triggerHaptic();
+    const vertices = draft;
+    setDraft([]);
+    onDrawComplete?.({ kind: 'polygon', vertices });
+  };
+
+  useEffect(() => {
+    const m = map.current;
+    if (!isOpen || !m || !focusBounds) return;
+    const { minLng, minLat, maxLng, maxLat } = focusBounds;
+    whenStyleLoaded(m, () => m.fitBounds([[minLng, minLat], [maxLng, maxLat]], { padding: 80, maxZoom: 17 }));
+  }, [isOpen, focusBounds]);
+
   const handleCopy = () => {
     if(navigator.clipboard) {
        navigator.clipboard.writeText(`${lat}, ${lng}`);
@@ -1181,6 +2165,11 @@ const FullMapDrawer = memo(({ isOpen, onClose, lat, lng }: { isOpen: boolean, on
                     <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse shadow-[0_0_10px_#22c55e]" />
                     <h3 className="text-xl font-black text-white tracking-widest uppercase font-mono">Sat<span className="text-white/40">.Link</span></h3>
                 </div>
+                {overlayTrack && (
+                  <div className="flex items-center gap-2 text-[10px] font-mono text-amber-400">
+                    <div className="w-3 h-0.5 bg-amber-500 rounded-full" /> {overlayTrack.name}
+                  </div>
+                )}
                 <button onClick={handleCopy} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 hover:bg-white/10 active:scale-95 transition-all group">
                     <span className={`text-[10px] font-mono tracking-wider ${copied ? 'text-green-400' : 'text-white/60 group-hover:text-white'}`}>{lat.toFixed(6)}, {lng.toFixed(6)}</span>
                     {copied ? <Check className="w-3 h-3 text-green-400"/> : <Copy className="w-3 h-3 text-white/40 group-hover:text-white"/>}
@@ -1200,6 +2189,23 @@ const FullMapDrawer = memo(({ isOpen, onClose, lat, lng }: { isOpen: boolean, on
              </div>
         </div>
         <div className="absolute bottom-0 left-0 right-0 z-[65] p-6 bg-gradient-to-t from-black via-black/90 to-transparent">
+             {drawMode ? (
+               <div className="max-w-lg mx-auto space-y-3">
+                 <p className="text-center text-[10px] font-mono uppercase tracking-widest text-purple-300">
+                   {drawMode === 'circle' 
+                     ? (draft.length === 0 ? 'Tap the centre of the fence' : 'Tap the edge to set the radius') 
+                     : `Tap the corners · ${draft.length} placed`}
+                 </p>
+                 <div className="grid grid-cols-2 gap-3">
+                   <button onClick={() => { triggerHaptic(); onDrawCancel?.(); }} className="py-4 rounded-xl bg-white/10 hover:bg-white/20 border border-white/10 text-white font-bold text-xs uppercase tracking-wider active:scale-[0.98]">Cancel</button>
+                   {drawMode === 'polygon' ? (
+                     <button onClick={finishPolygon} disabled={draft.length < 3} className="py-4 rounded-xl bg-purple-500/20 hover:bg-purple-500/30 border border-purple-500/40 text-purple-300 disabled:opacity-40 font-bold text-xs uppercase tracking-wider active:scale-[0.98]">Finish</button>
+                   ) : (
+                     <button onClick={() => { triggerHaptic(); setDraft([]); }} className="py-4 rounded-xl bg-white/10 hover:bg-white/20 border border-white/10 text-white font-bold text-xs uppercase tracking-wider active:scale-[0.98]">Restart</button>
+                   )}
+                 </div>
+               </div>
+             ) : (
              <div className="grid grid-cols-2 gap-3 max-w-lg mx-auto">
                  <button onClick={() => window.open(`http://maps.apple.com/?ll=${lat},${lng}&q=${lat},${lng}`, '_blank')} className="flex items-center justify-center gap-2 py-4 rounded-xl bg-white/10 hover:bg-white/20 border border-white/10 text-white font-bold text-xs uppercase tracking-wider backdrop-blur-md transition-all active:scale-[0.98]">
                     <MapPin className="w-4 h-4" /> Apple Maps
@@ -1208,6 +2214,7 @@ const FullMapDrawer = memo(({ isOpen, onClose, lat, lng }: { isOpen: boolean, on
                     <LocateFixed className="w-4 h-4" /> Google Maps
                  </button>
              </div>
+             )}
         </div>
       </div>
     </>
@@ -1215,28 +2222,805 @@ const FullMapDrawer = memo(({ isOpen, onClose, lat, lng }: { isOpen: boolean, on
 });
 FullMapDrawer.displayName = "FullMapDrawer";
 
-// --- MAIN COMPONENT ---
-export default function GeoLocation() {
-  const { coords, error, loading } = useGeolocation();
-  const { heading, trueHeading, pitch, roll, requestAccess, permissionGranted, error: compassError } = useCompass();
-  useWakeLock();
+const SOURCE_OPTIONS: { kind: LocationSourceKind, label: string }[] = [
+  { kind: 'browser', label: 'GPS' },
+  { kind: 'simulator', label: 'SIM' },
+  { kind: 'replay', label: 'REPLAY' },
+];
 
-  const [address, setAddress] = useState<string | null>(null);
-  const [weather, setWeather] = useState<WeatherData | null>(null);
-  const [path, setPath] = useState<GeoPoint[]>([]);
-  const [units, setUnits] = useState<UnitSystem>('metric');
-  const [mapMode, setMapMode] = useState<MapMode>('heading-up');
-  const [lastApiFetch, setLastApiFetch] = useState<{lat: number, lng: number} | null>(null);
-  const [mounted, setMounted] = useState(false);
-  const [isMapDrawerOpen, setIsMapDrawerOpen] = useState(false);
+const DevSettingsSheet = memo(({ 
+  open, 
+  onOpenChange, 
+  config, 
+  onChange, 
+  replayRate, 
+  onReplayRateChange, 
+  center 
+}: { 
+  open: boolean, 
+  onOpenChange: (open: boolean) => void, 
+  config: LocationSourceConfig, 
+  onChange: (config: LocationSourceConfig) => void, 
+  replayRate: number, 
+  onReplayRateChange: (rate: number) => void, 
+  center: { lat: number, lng: number } 
+}) => {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [simSpeed, setSimSpeed] = useState(config.kind === 'simulator' ? config.speed : 1.4);
+  const [simNoise, setSimNoise] = useState(config.kind === 'simulator' ? config.noise : 4);
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  const selectSource = (kind: LocationSourceKind) => {
+    triggerHaptic();
+    if (kind === config.kind) return;
+    if (kind === 'browser') onChange({ kind: 'browser' });
+    if (kind === 'simulator') onChange({ kind: 'simulator', route: createDemoRoute(center.lat, center.lng), speed: simSpeed, noise: simNoise });
+    if (kind === 'replay') fileInputRef.current?.click();
+  };
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const points = parseGPXTrack(await file.text());
+      if (points.length < 2) throw new Error("Track has fewer than two points");
+      setReplayError(null);
+      onChange({ kind: 'replay', name: file.name, points });
+    } catch (err) {
+      setReplayError(err instanceof Error ? err.message : "Could not read file");
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="bg-[#0c0c0c] border-white/10 text-white space-y-6">
+        <SheetHeader>
+          <SheetTitle className="text-sm font-black tracking-[0.2em] uppercase text-white/80">Dev<span className="text-white/30">.Settings</span></SheetTitle>
+          <SheetDescription className="text-[10px] uppercase tracking-wider">Location source</SheetDescription>
+        </SheetHeader>
+
+        <div className="grid grid-cols-3 gap-2">
+          {SOURCE_OPTIONS.map(({ kind, label }) => (
+            <button key={kind} onClick={() => selectSource(kind)} type="button" className={`py-2 rounded-lg border text-[10px] font-bold uppercase tracking-wider transition-all active:scale-95 ${config.kind === kind ? 'bg-green-500/10 border-green-500/50 text-green-500' : 'bg-white/5 border-white/10 text-muted-foreground hover:text-white'}`}>
+              {label}
+            </button>
+          ))}
+        </div>
+        <input type="file" ref={fileInputRef} className="hidden" accept=".gpx,application/gpx+xml" onChange={handleReplayFile} />
+
+        {config.kind === 'simulator' && (
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <div className="flex justify-between text-[9px] uppercase font-bold tracking-widest text-muted-foreground"><span>Speed</span><span className="font-mono text-white">{simSpeed.toFixed(1)} m/s</span></div>
+              <Slider min={0.5} max={15} step={0.5} value={[simSpeed]} onValueChange={([v]) => setSimSpeed(v)} onValueCommit={([v]) => onChange({ ...config, speed: v })} />
+            </div>
+            <div className="space-y-2">
+              <div className="flex justify-between text-[9px] uppercase font-bold tracking-widest text-muted-foreground"><span>Noise</span><span className="font-mono text-white">±{simNoise} m</span></div>
+              <Slider min={0} max={20} step={1} value={[simNoise]} onValueChange={([v]) => setSimNoise(v)} onValueCommit={([v]) => onChange({ ...config, noise: v })} />
+            </div>
+            <button onClick={() => { triggerHaptic(); onChange({ ...config, route: createDemoRoute(center.lat, center.lng) }); }} type="button" className="w-full py-2 rounded-lg bg-white/5 border border-white/10 text-[10px] font-bold uppercase tracking-wider text-muted-foreground hover:text-white">
+              Restart route here
+            </button>
+          </div>
+        )}
+
+        {config.kind === 'replay' && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between px-3 py-2 rounded-lg bg-black/40 border border-white/10">
+              <span className="text-[10px] font-mono text-white/70 truncate">{config.name}</span>
+              <span className="text-[9px] font-mono text-muted-foreground">{config.points.length} pts</span>
+            </div>
+            <div className="grid grid-cols-5 gap-1">
+              {REPLAY_RATES.map(rate => (
+                <button key={rate} onClick={() => { triggerHaptic(); onReplayRateChange(rate); }} type="button" className={`py-1.5 rounded-md border text-[10px] font-mono font-bold transition-all ${replayRate === rate ? 'bg-green-500/10 border-green-500/50 text-green-500' : 'bg-white/5 border-white/10 text-muted-foreground hover:text-white'}`}>
+                  {rate}x
+                </button>
+              ))}
+            </div>
+            <button onClick={() => fileInputRef.current?.click()} type="button" className="w-full py-2 rounded-lg bg-white/5 border border-white/10 text-[10px] font-bold uppercase tracking-wider text-muted-foreground hover:text-white flex items-center justify-center gap-2">
+              <Upload className="w-3 h-3" /> Load another GPX
+            </button>
+          </div>
+        )}
+
+        {replayError && <p className="text-[10px] font-mono text-red-400">{replayError}</p>}
+
+      </SheetContent>
+    </Sheet>
+  );
+});
+DevSettingsSheet.displayName = "DevSettingsSheet";
+
+const SimplifyControls = memo(({ 
+  config, 
+  onChange, 
+  stats, 
+  units 
+}: { 
+  config: SimplifyConfig, 
+  onChange: (config: SimplifyConfig) => void, 
+  stats: SimplifyStats | null, 
+  units: UnitSystem 
+}) => {
+  const [tolerance, setTolerance] = useState(config.tolerance);
+  useEffect(() => setTolerance(config.tolerance), [config.tolerance]);
+  const toUnit = (m: number) => units === 'metric' ? `${m.toFixed(1)} m` : `${(m * 3.28084).toFixed(1)} ft`;
+  const lengthError = stats ? stats.distanceBefore - stats.distanceAfter : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <button onClick={() => { triggerHaptic(); onChange({ ...config, enabled: !config.enabled }); }} type="button" className={`flex items-center gap-2 text-[9px] font-bold uppercase tracking-widest transition-colors ${config.enabled ? 'text-green-500' : 'text-muted-foreground hover:text-white'}`}>
+          <Spline className="w-3 h-3" /> Simplify export {config.enabled ? 'on' : 'off'}
+        </button>
+        <div className="flex gap-1">
+          {SIMPLIFY_ALGORITHMS.map(({ id, label, shortLabel }) => (
+            <button key={id} title={label} onClick={() => { triggerHaptic(); onChange({ ...config, algorithm: id }); }} type="button" className={`px-2 py-1 rounded-md border text-[8px] font-bold uppercase tracking-wider transition-all ${config.algorithm === id ? 'bg-green-500/10 border-green-500/40 text-green-500' : 'bg-white/5 border-white/10 text-muted-foreground hover:text-white'}`}>
+              {shortLabel}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-1.5">
+        <div className="flex justify-between text-[9px] uppercase font-bold tracking-widest text-muted-foreground"><span>Tolerance</span><span className="font-mono text-white">{toUnit(tolerance)}</span></div>
+        <Slider min={0.5} max={50} step={0.5} value={[tolerance]} onValueChange={([v]) => setTolerance(v)} onValueCommit={([v]) => onChange({ ...config, tolerance: v })} />
+      </div>
+      {stats && (
+        <div className="grid grid-cols-3 gap-2 text-[9px] font-mono text-muted-foreground">
+          <div className="flex flex-col"><span className="uppercase tracking-widest text-[8px]">Points</span><span className="text-white tabular-nums">{stats.before} → {stats.after}</span></div>
+          <div className="flex flex-col"><span className="uppercase tracking-widest text-[8px]">Δ Length</span><span className="text-white tabular-nums">{toUnit(lengthError)} ({stats.distanceBefore > 0 ? ((lengthError / stats.distanceBefore) * 100).toFixed(1) : '0.0'}%)</span></div>
+          <div className="flex flex-col"><span className="uppercase tracking-widest text-[8px]">Max dev</span><span className="text-white tabular-nums">{toUnit(stats.maxDeviation)}</span></div>
+        </div>
+      )}
+    </div>
+  );
+});
+SimplifyControls.displayName = "SimplifyControls";
+
+const ExportFormatPicker = memo(({ value, onChange }: { value: ExportFormat, onChange: (format: ExportFormat) => void }) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <button type="button" aria-label="Export format" className="px-4 rounded-xl bg-green-500/10 border border-green-500/40 text-green-500 font-mono font-bold text-xs uppercase flex items-center gap-1.5 active:scale-95 transition-transform">
+        .{EXPORTERS[value].extension} <ChevronDown className="w-3.5 h-3.5" />
+      </button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end" className="bg-[#111] border-white/10 text-white min-w-[220px]">
+      <DropdownMenuLabel className="text-[9px] uppercase tracking-widest text-muted-foreground">Export format</DropdownMenuLabel>
+      <DropdownMenuSeparator className="bg-white/10" />
+      <DropdownMenuRadioGroup value={value} onValueChange={(v) => { triggerHaptic(); onChange(v as ExportFormat); }}>
+        {EXPORT_FORMATS.map(format => (
+          <DropdownMenuRadioItem key={format.id} value={format.id} className="flex flex-col items-start gap-0.5">
+            <span className="text-xs font-bold font-mono">{format.label}</span>
+            <span className="text-[9px] text-muted-foreground">{format.description}</span>
+          </DropdownMenuRadioItem>
+        ))}
+      </DropdownMenuRadioGroup>
+    </DropdownMenuContent>
+  </DropdownMenu>
+));
+ExportFormatPicker.displayName = "ExportFormatPicker";
+
+const TrackLibrarySheet = memo(({ 
+  open, 
+  onOpenChange, 
+  version, 
+  units, 
+  exportFormat, 
+  simplifyConfig,
+  onSimplifyChange,
+  onExport, 
+  onShowOnMap,
+  imported,
+  onImport,
+  onRemoveImport,
+  onShowImport,
+  onFollowImport
+}: { 
+  open: boolean, 
+  onOpenChange: (open: boolean) => void, 
+  version: number, 
+  units: UnitSystem, 
+  exportFormat: ExportFormat, 
+  simplifyConfig: SimplifyConfig,
+  onSimplifyChange: (config: SimplifyConfig) => void,
+  onExport: (track: SavedTrack) => void, 
+  onShowOnMap: (track: SavedTrack) => void,
+  imported: ImportedDataset[],
+  onImport: (dataset: ImportedDataset) => void,
+  onRemoveImport: (id: string) => void,
+  onShowImport: (dataset: ImportedDataset) => void,
+  onFollowImport: (dataset: ImportedDataset) => void
+}) => {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [tracks, setTracks] = useState<SavedTrack[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Simplification preview for the tapped track, or the newest one.
+  const selectedTrack = tracks.find(t => t.id === selectedId) ?? tracks[0] ?? null;
+  const selectedStats = useMemo(() => 
+    selectedTrack && selectedTrack.points.length > 2 ? simplifyTrack(selectedTrack.points, simplifyConfig).stats : null, 
+  [selectedTrack, simplifyConfig]);
+
+  const reload = useCallback(async () => {
+    if (!isTrackStoreAvailable()) return;
+    setLoading(true);
+    try { setTracks(await listTracks()); } catch (err) { console.error(err); }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => { if (open) reload(); }, [open, version, reload]);
+
+  const startRename = (track: SavedTrack) => {
+    triggerHaptic();
+    setEditingId(track.id);
+    setDraftName(track.name);
+  };
+
+  const commitRename = async () => {
+    if (!editingId) return;
+    const name = draftName.trim();
+    setEditingId(null);
+    if (!name) return;
+    try { await renameTrack(editingId, name); } catch (err) { console.error(err); }
+    reload();
+  };
+
+  const handleDelete = async (id: string) => {
+    triggerHaptic();
+    if (confirmDeleteId !== id) { setConfirmDeleteId(id); return; }
+    setConfirmDeleteId(null);
+    try { await deleteTrack(id); } catch (err) { console.error(err); }
+    reload();
+  };
+
+  const handleImportFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        onImport(parseImportFile(file.name, await file.text()));
+      } catch (err) {
+        errors.push(`${file.name}: ${err instanceof Error ? err.message : "could not read file"}`);
+      }
+    }
+    setImportError(errors.length > 0 ? errors.join('\n') : null);
+  };
+
+  const formatDistance = (meters: number) => units === 'metric' 
+    ? `${(meters / 1000).toFixed(2)} km` 
+    : `${(meters / 1609.344).toFixed(2)} mi`;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-[#0c0c0c] border-white/10 text-white h-[80dvh] flex flex-col gap-4 rounded-t-[2rem]">
+        <SheetHeader>
+          <SheetTitle className="text-sm font-black tracking-[0.2em] uppercase text-white/80">Track<span className="text-white/30">.Library</span></SheetTitle>
+          <SheetDescription className="text-[10px] uppercase tracking-wider">{tracks.length} saved {tracks.length === 1 ? "log" : "logs"}</SheetDescription>
+        </SheetHeader>
+        <input type="file" ref={fileInputRef} className="hidden" accept={IMPORT_ACCEPT} multiple onChange={handleImportFiles} />
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-[9px] uppercase font-bold tracking-widest text-muted-foreground">Overlays</span>
+            <button onClick={() => { triggerHaptic(); fileInputRef.current?.click(); }} type="button" className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-sky-500/10 border border-sky-500/40 text-sky-400 text-[9px] font-bold uppercase tracking-wider active:scale-95 transition-all">
+              <Upload className="w-3 h-3" /> Import GPX / KML / GeoJSON
+            </button>
+          </div>
+          {imported.map(dataset => (
+            <div key={dataset.id} className="flex items-center justify-between px-3 py-2 rounded-lg bg-black/40 border border-sky-500/20">
+              <div className="flex flex-col min-w-0">
+                <span className="text-[11px] font-mono text-sky-300 truncate">{dataset.name}</span>
+                <span className="text-[9px] font-mono text-muted-foreground uppercase">
+                  {dataset.format} · {dataset.lines.filter(l => l.kind === 'track').length} trk · {dataset.lines.filter(l => l.kind === 'route').length} rte · {dataset.waypoints.length} wpt
+                </span>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                {datasetToRoute(dataset) && <button onClick={() => onFollowImport(dataset)} type="button" aria-label="Follow as route" className="p-1.5 rounded-md text-muted-foreground hover:text-orange-400 hover:bg-white/5"><Navigation className="w-3.5 h-3.5" /></button>}
+                <button onClick={() => onShowImport(dataset)} type="button" aria-label="Show on map" className="p-1.5 rounded-md text-muted-foreground hover:text-sky-400 hover:bg-white/5"><MapIcon className="w-3.5 h-3.5" /></button>
+                <button onClick={() => { triggerHaptic(); onRemoveImport(dataset.id); }} type="button" aria-label="Remove overlay" className="p-1.5 rounded-md text-muted-foreground hover:text-red-400 hover:bg-white/5"><X className="w-3.5 h-3.5" /></button>
+              </div>
+            </div>
+          ))}
+          {importError && <p className="text-[10px] font-mono text-red-400 whitespace-pre-line">{importError}</p>}
+        </div>
+        <div className="rounded-lg bg-black/40 border border-white/5 p-3">
+          <SimplifyControls config={simplifyConfig} onChange={onSimplifyChange} stats={selectedStats} units={units} />
+          {selectedTrack && selectedStats && (
+            <p className="mt-2 text-[8px] font-mono uppercase tracking-widest text-muted-foreground truncate">Preview · {selectedTrack.name}</p>
+          )}
+        </div>
+        <div className="flex-1 overflow-y-auto -mx-2">
+          {loading && tracks.length === 0 && <div className="flex justify-center py-10"><Loader2 className="w-6 h-6 animate-spin text-green-500/50" /></div>}
+          {!loading && tracks.length === 0 && (
+            <p className="text-center py-10 text-[10px] uppercase tracking-widest text-muted-foreground">No recordings yet</p>
+          )}
+          {tracks.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow className="border-white/10 hover:bg-transparent">
+                  <TableHead className="text-[9px] uppercase tracking-widest">Name</TableHead>
+                  <TableHead className="text-[9px] uppercase tracking-widest hidden sm:table-cell">Start</TableHead>
+                  <TableHead className="text-[9px] uppercase tracking-widest text-right">Dist</TableHead>
+                  <TableHead className="text-[9px] uppercase tracking-widest text-right hidden sm:table-cell">Time</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tracks.map(track => (
+                  <TableRow key={track.id} onClick={() => setSelectedId(track.id)} className={`border-white/5 cursor-pointer ${selectedTrack?.id === track.id ? 'bg-white/5' : ''}`}>
+                    <TableCell className="font-mono text-xs max-w-[140px]">
+                      {editingId === track.id ? (
+                        <input 
+                          autoFocus 
+                          value={draftName} 
+                          onChange={e => setDraftName(e.target.value)} 
+                          onBlur={commitRename} 
+                          onKeyDown={e => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingId(null); }} 
+                          className="w-full bg-black/60 border border-green-500/40 rounded px-2 py-1 text-xs font-mono outline-none" 
+                        />
+                      ) : (
+                        <button onClick={() => startRename(track)} type="button" className="flex items-center gap-1.5 truncate text-left hover:text-green-400 transition-colors">
+                          <span className="truncate">{track.name}</span>
+                          <Pencil className="w-3 h-3 shrink-0 opacity-40" />
+                        </button>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-[10px] text-muted-foreground hidden sm:table-cell">
+                      {new Date(track.startedAt).toLocaleDateString()} {formatTime(new Date(track.startedAt).toISOString())}–{formatTime(new Date(track.endedAt).toISOString())}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs text-right tabular-nums">{formatDistance(track.distance)}</TableCell>
+                    <TableCell className="font-mono text-xs text-right tabular-nums hidden sm:table-cell">{formatDuration(track.duration)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <button onClick={() => onShowOnMap(track)} type="button" aria-label="Show on map" className="p-1.5 rounded-md text-muted-foreground hover:text-green-400 hover:bg-white/5"><MapIcon className="w-3.5 h-3.5" /></button>
+                        <button onClick={() => onExport(track)} type="button" aria-label={`Export ${EXPORTERS[exportFormat].label}`} className="p-1.5 rounded-md text-muted-foreground hover:text-white hover:bg-white/5"><Download className="w-3.5 h-3.5" /></button>
+                        <button onClick={() => handleDelete(track.id)} type="button" aria-label="Delete track" className={`p-1.5 rounded-md transition-colors ${confirmDeleteId === track.id ? 'text-red-500 bg-red-500/10' : 'text-muted-foreground hover:text-red-400 hover:bg-white/5'}`}><Trash2 className="w-3.5 h-3.5" /></button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+});
+TrackLibrarySheet.displayName = "TrackLibrarySheet";
+
+const WaypointPhoto = memo(({ photo, className }: { photo: Blob, className?: string }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(photo);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [photo]);
+  return url ? <img src={url} alt="Waypoint photo" className={className} /> : null;
+});
+WaypointPhoto.displayName = "WaypointPhoto";
+
+const WaypointSheet = memo(({ 
+  open, 
+  onOpenChange, 
+  waypoints, 
+  editingId, 
+  onEdit, 
+  onUpdate, 
+  onDelete, 
+  onShowOnMap, 
+  onNavigate, 
+  onCreateWaypoint, 
+  onFollowRoute, 
+  onExport, 
+  position, 
+  units, 
+  coordinateFormat 
+}: { 
+  open: boolean, 
+  onOpenChange: (open: boolean) => void, 
+  waypoints: Waypoint[], 
+  editingId: string | null, 
+  onEdit: (id: string | null) => void, 
+  onUpdate: (waypoint: Waypoint) => void, 
+  onDelete: (id: string) => void, 
+  onShowOnMap: (waypoint: Waypoint) => void, 
+  onNavigate: (target: { name: string, lat: number, lng: number }) => void, 
+  onCreateWaypoint: (point: { name?: string, lat: number, lng: number }) => void, 
+  onFollowRoute: (route: Route) => void, 
+  onExport: () => void, 
+  position: LatLng | null, 
+  units: UnitSystem, 
+  coordinateFormat: CoordinateFormat 
+}) => {
+  const photoInputRef = useRef<HTMLInputElement | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [coordinateInput, setCoordinateInput] = useState("");
+  const parsedInput = useMemo(() => parseCoordinateInput(coordinateInput, position), [coordinateInput, position]);
+  const [routeDraft, setRouteDraft] = useState<string[] | null>(null);
+
+  const toggleRouteStop = (id: string) => {
+    triggerHaptic();
+    setRouteDraft(prev => prev && (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+  };
+
+  const followRoute = () => {
+    if (!routeDraft) return;
+    const stops = routeDraft.flatMap(id => waypoints.filter(w => w.id === id));
+    if (stops.length < 2) return;
+    triggerHaptic();
+    setRouteDraft(null);
+    onFollowRoute({ name: `${stops[0].name} → ${stops[stops.length - 1].name}`, points: stops.map(w => ({ lat: w.lat, lng: w.lng, name: w.name })) });
+  };
+  const editing = waypoints.find(w => w.id === editingId) ?? null;
+  const [draft, setDraft] = useState<{ name: string, note: string }>({ name: '', note: '' });
+
+  // The draft follows the stored waypoint; icon and photo changes save the
+  // draft along with them so the reset doesn't drop unsaved text.
+  useEffect(() => { if (editing) setDraft({ name: editing.name, note: editing.note }); }, [editing]);
+
+  const updateWithDraft = (changes: Partial<Waypoint>) => {
+    if (!editing) return;
+    onUpdate({ ...editing, name: draft.name.trim() || editing.name, note: draft.note, ...changes });
+  };
+
+  const commitDraft = () => {
+    if (!editing) return;
+    const name = draft.name.trim() || editing.name;
+    if (name !== editing.name || draft.note !== editing.note) onUpdate({ ...editing, name, note: draft.note });
+  };
+
+  const handlePhoto = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) updateWithDraft({ photo: file });
+  };
+
+  const goToCoordinate = (point: ParsedCoordinate) => {
+    triggerHaptic();
+    setCoordinateInput("");
+    onNavigate({ name: point.name ?? `${point.lat.toFixed(5)}, ${point.lng.toFixed(5)}`, lat: point.lat, lng: point.lng });
+  };
+
+  const saveCoordinate = (point: ParsedCoordinate) => {
+    triggerHaptic();
+    setCoordinateInput("");
+    onCreateWaypoint({ name: point.name, lat: point.lat, lng: point.lng });
+  };
+
+  const handleDelete = (id: string) => {
+    triggerHaptic();
+    if (confirmDeleteId !== id) { setConfirmDeleteId(id); return; }
+    setConfirmDeleteId(null);
+    if (id === editingId) onEdit(null);
+    onDelete(id);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={(o) => { if (!o) { commitDraft(); onEdit(null); } onOpenChange(o); }}>
+      <SheetContent side="bottom" className="bg-[#0c0c0c] border-white/10 text-white h-[80dvh] flex flex-col gap-4 rounded-t-[2rem]">
+        <SheetHeader>
+          <SheetTitle className="text-sm font-black tracking-[0.2em] uppercase text-white/80">Way<span className="text-white/30">.Points</span></SheetTitle>
+          <SheetDescription className="text-[10px] uppercase tracking-wider">{waypoints.length} marked {waypoints.length === 1 ? "point" : "points"}</SheetDescription>
+        </SheetHeader>
+        <input type="file" ref={photoInputRef} className="hidden" accept="image/*" capture="environment" onChange={handlePhoto} />
+
+        {editing && (
+          <div className="space-y-3 rounded-lg bg-black/40 border border-orange-500/30 p-3">
+            <div className="flex gap-2">
+              <input 
+                value={draft.name} 
+                onChange={e => setDraft(d => ({ ...d, name: e.target.value }))} 
+                onBlur={commitDraft} 
+                placeholder="Name" 
+                className="flex-1 bg-black/60 border border-white/10 focus:border-orange-500/50 rounded px-2 py-1.5 text-xs font-mono outline-none" 
+              />
+              <button onClick={() => { triggerHaptic(); commitDraft(); onEdit(null); }} type="button" className="px-3 rounded bg-orange-500/10 border border-orange-500/40 text-orange-400 text-[10px] font-bold uppercase tracking-wider">Done</button>
+            </div>
+            <div className="grid grid-cols-8 gap-1">
+              {(Object.keys(WAYPOINT_ICONS) as WaypointIcon[]).map(id => {
+                const { icon: Icon, label } = WAYPOINT_ICONS[id];
+                return (
+                  <button key={id} onClick={() => { triggerHaptic(); updateWithDraft({ icon: id }); }} type="button" aria-label={label} className={`flex justify-center py-2 rounded-md border transition-all ${editing.icon === id ? 'bg-orange-500/10 border-orange-500/50 text-orange-400' : 'bg-white/5 border-white/10 text-muted-foreground hover:text-white'}`}>
+                    <Icon className="w-3.5 h-3.5" />
+                  </button>
+                );
+              })}
+            </div>
+            <textarea 
+              value={draft.note} 
+              onChange={e => setDraft(d => ({ ...d, note: e.target.value }))} 
+              onBlur={commitDraft} 
+              placeholder="Note" 
+              rows={2} 
+              className="w-full bg-black/60 border border-white/10 focus:border-orange-500/50 rounded px-2 py-1.5 text-xs font-mono outline-none resize-none" 
+            />
+            <div className="flex items-center gap-3">
+              {editing.photo ? (
+                <>
+                  <WaypointPhoto photo={editing.photo} className="w-16 h-16 rounded-md object-cover border border-white/10" />
+                  <button onClick={() => { triggerHaptic(); updateWithDraft({ photo: null }); }} type="button" className="text-[9px] font-bold uppercase tracking-wider text-muted-foreground hover:text-red-400">Remove photo</button>
+                </>
+              ) : (
+                <button onClick={() => photoInputRef.current?.click()} type="button" className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white/5 border border-white/10 text-muted-foreground hover:text-white text-[9px] font-bold uppercase tracking-wider">
+                  <Camera className="w-3 h-3" /> Attach photo
+                </button>
+              )}
+              <span className="ml-auto text-[9px] font-mono text-muted-foreground text-right">
+                {formatPosition(editing.lat, editing.lng, coordinateFormat)}<br />
+                {editing.alt !== null ? `${convertAltitude(editing.alt, units)} ${units === 'metric' ? 'm' : 'ft'} · ` : ''}{formatTime(new Date(editing.timestamp).toISOString())}
+              </span>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-1.5">
+          <input 
+            value={coordinateInput} 
+            onChange={e => setCoordinateInput(e.target.value)} 
+            onKeyDown={e => { if (e.key === 'Enter' && parsedInput.candidates.length === 1) goToCoordinate(parsedInput.candidates[0]); }} 
+            placeholder="Enter coordinate: DD, DMS, UTM, MGRS, Plus Code, geo:…" 
+            className="w-full bg-black/60 border border-white/10 focus:border-orange-500/50 rounded px-2 py-1.5 text-xs font-mono outline-none" 
+          />
+          {parsedInput.error && <p className="text-[10px] font-mono text-red-400">{parsedInput.error}</p>}
+          {parsedInput.candidates.length > 1 && <p className="text-[10px] font-mono text-yellow-500">Ambiguous input, {parsedInput.candidates.length} readings. Pick one:</p>}
+          {parsedInput.candidates.map((point, i) => (
+            <div key={i} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-black/40 border border-white/10">
+              <div className="flex flex-col min-w-0 flex-1">
+                <span className="text-[11px] font-mono truncate">{formatPosition(point.lat, point.lng, coordinateFormat)}</span>
+                <span className="text-[9px] font-mono text-muted-foreground truncate">{PARSED_FORMAT_LABELS[point.format]}{point.name ? ` · ${point.name}` : ''}{point.note ? ` · ${point.note}` : ''}</span>
+              </div>
+              <button onClick={() => saveCoordinate(point)} type="button" aria-label="Save as waypoint" className="p-1.5 rounded-md text-muted-foreground hover:text-orange-400 hover:bg-white/5"><MapPinPlus className="w-3.5 h-3.5" /></button>
+              <button onClick={() => goToCoordinate(point)} type="button" aria-label="Go to coordinate" className="p-1.5 rounded-md text-orange-400 bg-orange-500/10 border border-orange-500/40"><Navigation className="w-3.5 h-3.5" /></button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-[9px] uppercase font-bold tracking-widest text-muted-foreground">{routeDraft ? 'Tap points in route order' : 'Saved'}</span>
+          <div className="flex gap-1.5">
+            {waypoints.length > 1 && (routeDraft ? (
+              <>
+                <button onClick={() => { triggerHaptic(); setRouteDraft(null); }} type="button" className="px-3 py-1.5 rounded-full bg-white/5 border border-white/10 text-muted-foreground hover:text-white text-[9px] font-bold uppercase tracking-wider">Cancel</button>
+                <button onClick={followRoute} disabled={routeDraft.length < 2} type="button" className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-orange-500/10 border border-orange-500/40 text-orange-400 disabled:opacity-40 text-[9px] font-bold uppercase tracking-wider">
+                  <Spline className="w-3 h-3" /> Follow ({routeDraft.length})
+                </button>
+              </>
+            ) : (
+              <button onClick={() => { triggerHaptic(); setRouteDraft([]); }} type="button" className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white/5 border border-white/10 text-muted-foreground hover:text-white text-[9px] font-bold uppercase tracking-wider">
+                <Spline className="w-3 h-3" /> Route
+              </button>
+            ))}
+            {waypoints.length > 0 && !routeDraft && (
+              <button onClick={() => { triggerHaptic(); onExport(); }} type="button" className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white/5 border border-white/10 text-muted-foreground hover:text-white text-[9px] font-bold uppercase tracking-wider">
+                <Download className="w-3 h-3" /> Export .gpx
+              </button>
+            )}
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto space-y-1.5">
+          {waypoints.length === 0 && (
+            <p className="text-center py-10 text-[10px] uppercase tracking-widest text-muted-foreground">No waypoints yet</p>
+          )}
+          {waypoints.map(w => {
+            const Icon = WAYPOINT_ICONS[w.icon].icon;
+            const stop = routeDraft ? routeDraft.indexOf(w.id) : -1;
+            return (
+              <div key={w.id} onClick={routeDraft ? () => toggleRouteStop(w.id) : undefined} className={`flex items-center gap-3 px-3 py-2 rounded-lg bg-black/40 border ${w.id === editingId || stop >= 0 ? 'border-orange-500/40' : 'border-white/5'} ${routeDraft ? 'cursor-pointer' : ''}`}>
+                {stop >= 0 
+                  ? <span className="w-4 h-4 shrink-0 rounded-full bg-orange-500 text-black text-[9px] font-bold flex items-center justify-center">{stop + 1}</span> 
+                  : <Icon className="w-4 h-4 shrink-0 text-orange-400" />}
+                <div className="flex flex-col min-w-0 flex-1">
+                  <span className="text-[11px] font-mono truncate">{w.name}</span>
+                  <span className="text-[9px] font-mono text-muted-foreground truncate">
+                    {position ? formatShortDistance(getDistance(position.lat, position.lng, w.lat, w.lng), units) : '--'}{w.note ? ` · ${w.note}` : ''}
+                  </span>
+                </div>
+                {w.photo && <WaypointPhoto photo={w.photo} className="w-8 h-8 rounded object-cover border border-white/10 shrink-0" />}
+                <div className={`flex gap-1 shrink-0 ${routeDraft ? 'hidden' : ''}`}>
+                  <button onClick={() => { triggerHaptic(); commitDraft(); onEdit(w.id); }} type="button" aria-label="Edit waypoint" className="p-1.5 rounded-md text-muted-foreground hover:text-orange-400 hover:bg-white/5"><Pencil className="w-3.5 h-3.5" /></button>
+                  <button onClick={() => onNavigate(w)} type="button" aria-label="Go to waypoint" className="p-1.5 rounded-md text-muted-foreground hover:text-orange-400 hover:bg-white/5"><Navigation className="w-3.5 h-3.5" /></button>
+                  <button onClick={() => onShowOnMap(w)} type="button" aria-label="Show on map" className="p-1.5 rounded-md text-muted-foreground hover:text-orange-400 hover:bg-white/5"><MapIcon className="w-3.5 h-3.5" /></button>
+                  <button onClick={() => handleDelete(w.id)} type="button" aria-label="Delete waypoint" className={`p-1.5 rounded-md transition-colors ${confirmDeleteId === w.id ? 'text-red-500 bg-red-500/10' : 'text-muted-foreground hover:text-red-400 hover:bg-white/5'}`}><Trash2 className="w-3.5 h-3.5" /></button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+});
+WaypointSheet.displayName = "WaypointSheet";
+
+const DWELL_OPTIONS = [60_000, 5 * 60_000, 15 * 60_000, 30 * 60_000];
+
+const GeofenceSheet = memo(({ 
+  open, 
+  onOpenChange, 
+  geofences, 
+  insideIds, 
+  events, 
+  onDraw, 
+  onUpdate, 
+  onDelete, 
+  onExportEvents, 
+  onClearEvents, 
+  units 
+}: { 
+  open: boolean, 
+  onOpenChange: (open: boolean) => void, 
+  geofences: Geofence[], 
+  insideIds: string[], 
+  events: GeofenceEvent[], 
+  onDraw: (kind: GeofenceShape['kind']) => void, 
+  onUpdate: (fence: Geofence) => void, 
+  onDelete: (id: string) => void, 
+  onExportEvents: () => void, 
+  onClearEvents: () => void, 
+  units: UnitSystem 
+}) => {
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const handleDelete = (id: string) => {
+    triggerHaptic();
+    if (confirmDeleteId !== id) { setConfirmDeleteId(id); return; }
+    setConfirmDeleteId(null);
+    onDelete(id);
+  };
+
+  const cycleDwell = (fence: Geofence) => {
+    triggerHaptic();
+    const next = DWELL_OPTIONS[(DWELL_OPTIONS.indexOf(fence.dwellTime) + 1) % DWELL_OPTIONS.length];
+    onUpdate({ ...fence, dwellTime: next });
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-[#0c0c0c] border-white/10 text-white h-[80dvh] flex flex-col gap-4 rounded-t-[2rem]">
+        <SheetHeader>
+          <SheetTitle className="text-sm font-black tracking-[0.2em] uppercase text-white/80">Geo<span className="text-white/30">.Fences</span></SheetTitle>
+          <SheetDescription className="text-[10px] uppercase tracking-wider">{geofences.length} {geofences.length === 1 ? "fence" : "fences"} · {insideIds.length} inside</SheetDescription>
+        </SheetHeader>
+        <div className="grid grid-cols-2 gap-2">
+          <button onClick={() => onDraw('circle')} type="button" className="flex items-center justify-center gap-2 py-2 rounded-lg bg-purple-500/10 border border-purple-500/40 text-purple-300 text-[10px] font-bold uppercase tracking-wider active:scale-95 transition-all">
+            <Circle className="w-3 h-3" /> Draw circle
+          </button>
+          <button onClick={() => onDraw('polygon')} type="button" className="flex items-center justify-center gap-2 py-2 rounded-lg bg-purple-500/10 border border-purple-500/40 text-purple-300 text-[10px] font-bold uppercase tracking-wider active:scale-95 transition-all">
+            <Pentagon className="w-3 h-3" /> Draw polygon
+          </button>
+        </div>
+        <div className="space-y-1.5">
+          {geofences.length === 0 && <p className="text-center py-4 text-[10px] uppercase tracking-widest text-muted-foreground">No geofences yet</p>}
+          {geofences.map(fence => {
+            const inside = insideIds.includes(fence.id);
+            return (
+              <div key={fence.id} className={`flex items-center gap-3 px-3 py-2 rounded-lg bg-black/40 border ${inside ? 'border-purple-500/50' : 'border-white/5'}`}>
+                {fence.shape.kind === 'circle' ? <Circle className="w-4 h-4 shrink-0 text-purple-400" /> : <Pentagon className="w-4 h-4 shrink-0 text-purple-400" />}
+                <div className="flex flex-col min-w-0 flex-1">
+                  <span className="text-[11px] font-mono truncate">{fence.name}</span>
+                  <span className="text-[9px] font-mono text-muted-foreground">
+                    {fence.shape.kind === 'circle' ? `r ${formatShortDistance(fence.shape.radius, units)}` : `${fence.shape.vertices.length} corners`}{inside ? ' · inside' : ''}
+                  </span>
+                </div>
+                <button onClick={() => cycleDwell(fence)} type="button" aria-label="Dwell time" className="px-2 py-1 rounded-md bg-white/5 border border-white/10 text-[9px] font-mono text-muted-foreground hover:text-white">
+                  DWELL {Math.round(fence.dwellTime / 60_000)}m
+                </button>
+                <button onClick={() => handleDelete(fence.id)} type="button" aria-label="Delete geofence" className={`p-1.5 rounded-md transition-colors ${confirmDeleteId === fence.id ? 'text-red-500 bg-red-500/10' : 'text-muted-foreground hover:text-red-400 hover:bg-white/5'}`}><Trash2 className="w-3.5 h-3.5" /></button>
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-[9px] uppercase font-bold tracking-widest text-muted-foreground">Event log</span>
+          {events.length > 0 && (
+            <div className="flex gap-1.5">
+              <button onClick={() => { triggerHaptic(); onClearEvents(); }} type="button" className="px-3 py-1.5 rounded-full bg-white/5 border border-white/10 text-muted-foreground hover:text-white text-[9px] font-bold uppercase tracking-wider">Clear</button>
+              <button onClick={() => { triggerHaptic(); onExportEvents(); }} type="button" className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white/5 border border-white/10 text-muted-foreground hover:text-white text-[9px] font-bold uppercase tracking-wider">
+                <Download className="w-3 h-3" /> Export .csv
+              </button>
+            </div>
+          )}
+        </div>
+        <div className="flex-1 overflow-y-auto space-y-1">
+          {events.length === 0 && <p className="text-center py-4 text-[10px] uppercase tracking-widest text-muted-foreground">No events</p>}
+          {[...events].reverse().map(event => (
+            <div key={event.id} className="flex items-center justify-between px-3 py-1.5 rounded-md bg-black/30 text-[10px] font-mono">
+              <span className={event.kind === 'exit' ? 'text-muted-foreground' : 'text-purple-300'}>{GEOFENCE_EVENT_LABELS[event.kind]} {event.fenceName}</span>
+              <span className="text-muted-foreground">{formatTime(new Date(event.timestamp).toISOString())}</span>
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+});
+GeofenceSheet.displayName = "GeofenceSheet";
+
+// --- MAIN COMPONENT ---
+export default function GeoLocation() {
+  const [sourceConfig, setSourceConfig] = useState<LocationSourceConfig>({ kind: 'browser' });
+  const [replayRate, setReplayRate] = useState(DEFAULT_REPLAY_RATE);
+  const locationProvider = useMemo(() => createLocationProvider(sourceConfig), [sourceConfig]);
+  // Applied in place so a rate change doesn't restart the replay.
+  useEffect(() => { locationProvider.setRate?.(replayRate); }, [locationProvider, replayRate]);
+  const { coords, rawCoords, rejections, error, loading } = useGeolocation(locationProvider);
+  const { heading, trueHeading, headingStale, camera, pitch, roll, requestAccess, permissionGranted, error: compassError, method: headingMethod, fieldStrength } = useCompass();
+  useWakeLock();
+
+  const [address, setAddress] = useState<string | null>(null);
+  const [weather, setWeather] = useState<WeatherData | null>(null);
+  const [path, setPath] = useState<GeoPoint[]>([]);
+  const [units, setUnits] = useState<UnitSystem>('metric');
+  const [coordinateFormat, setCoordinateFormat] = useState<CoordinateFormat>(DEFAULT_COORDINATE_FORMAT);
+  const [northReference, setNorthReference] = useState<NorthReference>('true');
+  const [mapMode, setMapMode] = useState<MapMode>('heading-up');
+  const [lastApiFetch, setLastApiFetch] = useState<{lat: number, lng: number} | null>(null);
+  const [mounted, setMounted] = useState(false);
+  const [isMapDrawerOpen, setIsMapDrawerOpen] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [recordedPath, setRecordedPath] = useState<GeoPoint[]>([]);
   const [showSaveButton, setShowSaveButton] = useState(false);
+  const [interruptedRecording, setInterruptedRecording] = useState<ActiveRecording | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  const [mapOverlayTrack, setMapOverlayTrack] = useState<SavedTrack | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('gpx');
+  const [importedLayers, setImportedLayers] = useState<ImportedDataset[]>([]);
+  const [simplifyConfig, setSimplifyConfig] = useState<SimplifyConfig>(DEFAULT_SIMPLIFY_CONFIG);
+  const [mapFocusBounds, setMapFocusBounds] = useState<BoundingBox | null>(null);
+  const [mapHighlightCell, setMapHighlightCell] = useState<{ label: string, bounds: BoundingBox } | null>(null);
+  const [geohashPrecision, setGeohashPrecision] = useState(DEFAULT_GEOHASH_PRECISION);
+  const [waypoints, setWaypoints] = useState<Waypoint[]>([]);
+  const [isWaypointsOpen, setIsWaypointsOpen] = useState(false);
+  const [editingWaypointId, setEditingWaypointId] = useState<string | null>(null);
+  const [navTarget, setNavTarget] = useState<NavTarget | null>(null);
+  const [arrivalRadius, setArrivalRadius] = useState(DEFAULT_ARRIVAL_RADIUS);
+  const [hasArrived, setHasArrived] = useState(false);
+  const [activeRoute, setActiveRoute] = useState<RouteNavigator | null>(null);
+  const [routeProgress, setRouteProgress] = useState<RouteProgress | null>(null);
+  const [offRouteDistance, setOffRouteDistance] = useState(DEFAULT_OFF_ROUTE_DISTANCE);
+  const [geofences, setGeofences] = useState<Geofence[]>([]);
+  const [geofenceEvents, setGeofenceEvents] = useState<GeofenceEvent[]>([]);
+  const [insideFenceIds, setInsideFenceIds] = useState<string[]>([]);
+  const [isGeofencesOpen, setIsGeofencesOpen] = useState(false);
+  const [drawMode, setDrawMode] = useState<GeofenceShape['kind'] | null>(null);
   const [isGestureMode, setIsGestureMode] = useState(false);
   const [isScannerMode, setIsScannerMode] = useState(false); // New state for Scanner
+  const [isDevSettingsOpen, setIsDevSettingsOpen] = useState(false);
+  const [isCalibrationOpen, setIsCalibrationOpen] = useState(false);
+  const [isSunSightOpen, setIsSunSightOpen] = useState(false);
+  const [headingOffset, setHeadingOffset] = useState<number | null>(null);
+  const [compassHealth, setCompassHealth] = useState<CompassHealth>(HEALTHY_COMPASS);
+  const compassHealthRef = useRef(createCompassHealthMonitor());
+  const headingFusionRef = useRef(createHeadingFusion());
+  const fusedHeadingRef = useRef<FusedHeading>(EMPTY_FUSED_HEADING);
+  const lastCourseCheckRef = useRef<Coordinates | null>(null);
   
   const isMountedRef = useRef(false);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const lastRecordedRef = useRef<GeoPoint | null>(null);
+  // beginActiveRecording clears the stored points, so fixes recorded while it
+  // is pending queue here and are flushed once it lands. 'off' marks a session
+  // whose record couldn't be opened: its points stay in memory rather than
+  // landing in the previous session's log.
+  const activeQueueRef = useRef<GeoPoint[] | 'ready' | 'off'>('ready');
+  const activeOpeningRef = useRef<Promise<void>>(Promise.resolve());
+  const segmentRef = useRef(0);
+  const arrivalDetectorRef = useRef(createArrivalDetector());
+  const lastRouteProgressRef = useRef<RouteProgress | null>(null);
+  const geofenceMonitorRef = useRef(createGeofenceMonitor());
+  // Latest orientation readings for the recorder; kept in a ref so sensor
+  // updates don't re-run the per-fix effect.
+  const sensorsRef = useRef<{ magHeading: number | null, pitch: number | null, roll: number | null, accuracy: number | null }>({ magHeading: null, pitch: null, roll: null, accuracy: null });
+  sensorsRef.current = { magHeading: permissionGranted && !headingStale ? trueHeading : null, pitch: permissionGranted ? pitch : null, roll: permissionGranted ? roll : null, accuracy: rawCoords?.accuracy ?? null };
 
   useEffect(() => { 
     isMountedRef.current = true;
@@ -1244,9 +3028,141 @@ export default function GeoLocation() {
     return () => { isMountedRef.current = false; };
   }, []);
 
-  const isMoving = (coords?.speed ?? 0) > GPS_HEADING_THRESHOLD;
-  const effectiveHeading = isMoving && coords?.heading !== null && coords?.heading !== undefined ? coords.heading : (heading ?? 0);
-  const effectiveTrueHeading = isMoving && coords?.heading !== null && coords?.heading !== undefined ? coords.heading : trueHeading;
+  // Declination barely changes over a few km, so it is only recomputed per 0.1°.
+  const declinationLat = coords ? Math.round(coords.latitude * 10) / 10 : null;
+  const declinationLng = coords ? Math.round(coords.longitude * 10) / 10 : null;
+  const magneticField = useMemo(() => 
+    declinationLat !== null && declinationLng !== null ? getMagneticField(declinationLat, declinationLng) : null, 
+  [declinationLat, declinationLng]);
+  const declination = magneticField?.declination ?? null;
+  const gridConvergence = coords ? getGridConvergence(coords.latitude, coords.longitude) : null;
+
+  // Sensor headings are magnetic and GPS course is true; everything below is
+  // true north, and the compass converts to the chosen reference for display.
+  // A sun sight adds its measured compass error on top of declination.
+  const sensorTrueHeading = permissionGranted && trueHeading !== null && !headingStale ? normalizeDegrees(trueHeading + (declination ?? 0)) : null;
+  const magneticCorrection = (declination ?? 0) + (headingOffset ?? 0);
+  const magneticTrueHeading = sensorTrueHeading !== null ? normalizeDegrees(sensorTrueHeading + (headingOffset ?? 0)) : null;
+  const courseHeading = coords?.heading ?? null;
+
+  // The filter steps once per committed sample and its result lands in a
+  // ref, not state, so a sample costs one render; render reads the estimate
+  // from the previous sample, which the next sensor frame catches up.
+  useEffect(() => {
+    fusedHeadingRef.current = headingFusionRef.current.update({
+      magnetic: magneticTrueHeading,
+      magneticReliable: compassHealth.reliable,
+      course: courseHeading,
+      speed: coords?.speed ?? null,
+      accuracy: coords?.accuracy ?? null,
+      timestamp: Date.now(),
+    });
+  }, [magneticTrueHeading, courseHeading, coords?.speed, coords?.accuracy, compassHealth.reliable]);
+  const fusedHeading = fusedHeadingRef.current;
+
+  const toTrueNorth = fusedHeading.dominant === 'MAG' ? magneticCorrection : 0;
+  const fromTrueNorth = northReference === 'magnetic' ? -(declination ?? 0) : northReference === 'grid' ? -(gridConvergence ?? 0) : 0;
+  const effectiveTrueHeading = fusedHeading.heading;
+  // The dial follows the smoothed, unwrapped sensor heading so it never spins
+  // the long way past north; the fusion only shifts it by the GPS pull.
+  const effectiveHeading = heading !== null && magneticTrueHeading !== null && effectiveTrueHeading !== null 
+    ? heading + magneticCorrection + angleDifference(effectiveTrueHeading, magneticTrueHeading) 
+    : effectiveTrueHeading ?? 0;
+
+  useEffect(() => {
+    if (trueHeading === null) return;
+    const now = Date.now();
+    const monitor = compassHealthRef.current;
+    monitor.addHeading(trueHeading, now);
+    if (fieldStrength !== null && magneticField) monitor.addFieldStrength(fieldStrength, magneticField.totalIntensity / 1000, now);
+    const next = monitor.evaluate(now);
+    setCompassHealth(prev => prev.reliable === next.reliable && prev.issue === next.issue ? prev : next);
+  }, [trueHeading, fieldStrength, magneticField]);
+
+  // One course comparison per fix; the sensor fires far more often than GPS.
+  useEffect(() => {
+    if (!coords || lastCourseCheckRef.current === coords) return;
+    if (courseHeading === null || magneticTrueHeading === null || fusedHeading.gpsConfidence < COURSE_CHECK_CONFIDENCE) return;
+    lastCourseCheckRef.current = coords;
+    compassHealthRef.current.addCourse(magneticTrueHeading, courseHeading, Date.now());
+  }, [coords, courseHeading, magneticTrueHeading, fusedHeading.gpsConfidence]);
+
+  const finishCalibration = useCallback(() => {
+    compassHealthRef.current.reset();
+    setCompassHealth(HEALTHY_COMPASS);
+  }, []);
+
+  const openSunSight = useCallback(() => {
+    setIsCalibrationOpen(false);
+    setIsSunSightOpen(true);
+  }, []);
+
+  const applySunSight = useCallback((offset: number) => {
+    setHeadingOffset(offset);
+    setIsSunSightOpen(false);
+    if (isTrackStoreAvailable()) saveSetting('headingOffset', offset).catch(err => console.error(err));
+    toast({ title: "Compass aligned to the sun", description: `Offset ${formatSignedDegrees(offset)} applied until reset` });
+  }, []);
+
+  const resetHeadingOffset = useCallback(() => {
+    setHeadingOffset(null);
+    if (isTrackStoreAvailable()) saveSetting('headingOffset', null).catch(err => console.error(err));
+  }, []);
+
+  const handleCompassTap = useCallback(() => {
+    if (!permissionGranted) { requestAccess(); return; }
+    triggerHaptic();
+    setIsCalibrationOpen(true);
+  }, [permissionGranted, requestAccess]);
+
+  // Sun and moon move about a quarter degree a minute; recompute per minute and ~1 km.
+  const celestialMinute = Math.floor(Date.now() / 60_000);
+  const celestialLat = coords ? Math.round(coords.latitude * 100) / 100 : null;
+  const celestialLng = coords ? Math.round(coords.longitude * 100) / 100 : null;
+  const celestial = useMemo(() => {
+    if (celestialLat === null || celestialLng === null) return null;
+    const now = new Date();
+    return { sun: getSolarPosition(now, celestialLat, celestialLng), moon: getMoonPosition(now, celestialLat, celestialLng) };
+  }, [celestialLat, celestialLng, celestialMinute]);
+  const dialCelestial = useMemo(() => 
+    celestial && { 
+      sun: { ...celestial.sun, azimuth: normalizeDegrees(celestial.sun.azimuth + fromTrueNorth) }, 
+      moon: { ...celestial.moon, azimuth: normalizeDegrees(celestial.moon.azimuth + fromTrueNorth) } 
+    }, 
+  [celestial, fromTrueNorth]);
+
+  const goTo = useMemo(() => 
+    coords && navTarget ? solveGoTo({ lat: coords.latitude, lng: coords.longitude }, navTarget, coords.speed) : null, 
+  [coords, navTarget]);
+  const targetBearing = goTo?.bearing ?? routeProgress?.bearingToNext ?? null;
+
+  useEffect(() => {
+    if (!goTo || !navTarget) return;
+    if (arrivalDetectorRef.current.update(goTo.distance, arrivalRadius)) {
+      triggerHaptic();
+      announce(`Arrived at ${navTarget.name}`);
+    }
+    setHasArrived(arrivalDetectorRef.current.arrived);
+  }, [goTo, navTarget, arrivalRadius]);
+
+  // Alerts fire on transitions only: leaving the line, each new leg, the end.
+  useEffect(() => {
+    if (!coords || !activeRoute) return;
+    const progress = activeRoute.update({ lat: coords.latitude, lng: coords.longitude }, offRouteDistance, arrivalRadius);
+    const prev = lastRouteProgressRef.current;
+    if (progress.isOffRoute && !prev?.isOffRoute) {
+      triggerHaptic();
+      playAlertTone();
+    } else if (progress.finished && !prev?.finished) {
+      triggerHaptic();
+      announce("Route complete");
+    } else if (prev && progress.legIndex > prev.legIndex) {
+      triggerHaptic();
+      if (progress.next.name) announce(`Next, ${progress.next.name}`);
+    }
+    lastRouteProgressRef.current = progress;
+    setRouteProgress(progress);
+  }, [coords, activeRoute, offRouteDistance, arrivalRadius]);
 
   useEffect(() => {
     if (!coords) return;
@@ -1263,28 +3179,200 @@ export default function GeoLocation() {
       return prev;
     });
 
-    if (isRecording) {
-      setRecordedPath(prev => {
-        if (prev.length === 0) return [newPoint];
-        const last = prev[prev.length - 1];
-        const dist = getDistance(last.lat, last.lng, newPoint.lat, newPoint.lng);
-        if (dist >= REC_MIN_DISTANCE) return [...prev, newPoint];
-        return prev;
-      });
+    if (isRecording && !isPaused) {
+      const last = lastRecordedRef.current;
+      if (!last || getDistance(last.lat, last.lng, newPoint.lat, newPoint.lng) >= REC_MIN_DISTANCE) {
+        const { magHeading, pitch: p, roll: r, accuracy } = sensorsRef.current;
+        const recordedPoint: GeoPoint = { 
+          ...newPoint, 
+          segment: segmentRef.current,
+          sensors: { speed: coords.speed, course: coords.heading, accuracy: accuracy ?? coords.accuracy, magHeading, pitch: p, roll: r },
+        };
+        lastRecordedRef.current = recordedPoint;
+        setRecordedPath(prev => [...prev, recordedPoint]);
+        const queue = activeQueueRef.current;
+        if (Array.isArray(queue)) queue.push(recordedPoint);
+        else if (queue === 'ready' && isTrackStoreAvailable()) appendActivePoint(recordedPoint).catch(err => console.error("Track persist failed", err));
+      }
     }
-  }, [coords, isRecording]);
+  }, [coords, isRecording, isPaused]);
+
+  useEffect(() => {
+    if (!isTrackStoreAvailable()) return;
+    loadActiveRecording()
+      .then(rec => {
+        if (!isMountedRef.current || !rec) return;
+        if (rec.points.length > 0) setInterruptedRecording(rec);
+        else clearActiveRecording().catch(err => console.error("Track recovery failed", err));
+      })
+      .catch(err => console.error("Track recovery failed", err));
+  }, []);
+
+  useEffect(() => {
+    if (!coords || geofences.length === 0) return;
+    const events = geofenceMonitorRef.current.evaluate(geofences, { lat: coords.latitude, lng: coords.longitude }, Date.now());
+    if (events.length === 0) return;
+    triggerHaptic();
+    // The toaster shows one toast at a time, so events from the same fix share one.
+    toast({ 
+      title: events.map(e => `${GEOFENCE_EVENT_LABELS[e.kind]} ${e.fenceName}`).join(' · '), 
+      description: formatTime(new Date(events[0].timestamp).toISOString()) 
+    });
+    setGeofenceEvents(prev => [...prev, ...events]);
+    if (isTrackStoreAvailable()) saveGeofenceEvents(events).catch(err => console.error("Geofence event persist failed", err));
+    setInsideFenceIds(geofences.filter(f => geofenceMonitorRef.current.isInside(f.id)).map(f => f.id));
+  }, [coords, geofences]);
+
+  useEffect(() => {
+    if (!isTrackStoreAvailable()) return;
+    listGeofences()
+      .then(list => { if (isMountedRef.current) setGeofences(list); })
+      .catch(err => console.error("Geofence load failed", err));
+    listGeofenceEvents()
+      .then(list => { if (isMountedRef.current) setGeofenceEvents(prev => [...list, ...prev]); })
+      .catch(err => console.error("Geofence event load failed", err));
+  }, []);
+
+  useEffect(() => {
+    if (!isTrackStoreAvailable()) return;
+    loadSetting('coordinateFormat')
+      .then(format => { if (isMountedRef.current && format && COORDINATE_FORMATS.some(f => f.id === format)) setCoordinateFormat(format); })
+      .catch(err => console.error("Settings load failed", err));
+    loadSetting('headingOffset')
+      .then(offset => { if (isMountedRef.current && typeof offset === 'number' && Number.isFinite(offset)) setHeadingOffset(offset); })
+      .catch(err => console.error("Settings load failed", err));
+  }, []);
+
+  useEffect(() => {
+    if (!isTrackStoreAvailable()) return;
+    listWaypoints()
+      .then(list => { if (isMountedRef.current) setWaypoints(list); })
+      .catch(err => console.error("Waypoint load failed", err));
+  }, []);
+
+  // Opens the active record once `prepare` settles, then flushes the fixes
+  // that arrived in the meantime.
+  const openActiveRecord = useCallback((prepare: Promise<unknown>, startedAt: number, points?: GeoPoint[]) => {
+    const queue: GeoPoint[] = [];
+    activeQueueRef.current = queue;
+    activeOpeningRef.current = prepare
+      .then(() => beginActiveRecording(startedAt, points))
+      .then(() => {
+        if (activeQueueRef.current !== queue) return;
+        queue.forEach(p => appendActivePoint(p).catch(err => console.error("Track persist failed", err)));
+        activeQueueRef.current = 'ready';
+      })
+      .catch(err => {
+        console.error("Active recording failed", err);
+        if (activeQueueRef.current !== queue) return;
+        activeQueueRef.current = 'off';
+        if (isMountedRef.current) toast({ title: "Recording not backed up", description: "Save it before closing the app" });
+      });
+  }, []);
+
+  // Moves a finished recording into the track library; the active copy is
+  // only dropped once the library write has succeeded. Waits for a pending
+  // open so the record isn't rewritten after it is cleared, and a session that
+  // never got its own record leaves the stored one alone.
+  const closeActiveRecord = useCallback((archive: GeoPoint[] | null) => {
+    if (!isTrackStoreAvailable()) return;
+    const ownsRecord = activeQueueRef.current !== 'off';
+    activeQueueRef.current = 'ready';
+    activeOpeningRef.current.then(() => {
+      if (!archive) return ownsRecord ? clearActiveRecording() : undefined;
+      return saveTrack(createSavedTrack(archive))
+        .then(() => ownsRecord ? clearActiveRecording() : undefined)
+        .then(() => { if (isMountedRef.current) setLibraryVersion(v => v + 1); })
+        .catch(err => {
+          console.error("Track archive failed", err);
+          if (ownsRecord) markActiveRecordingStopped(Date.now()).catch(() => {});
+        });
+    }).catch(err => console.error(err));
+  }, []);
 
   const toggleRecording = useCallback(() => {
     triggerHaptic();
     if (isRecording) {
       setIsRecording(false);
-      if (recordedPath.length > 0) setShowSaveButton(true);
+      setIsPaused(false);
+      if (recordedPath.length > 0) {
+        setShowSaveButton(true);
+        closeActiveRecord(recordedPath);
+      } else {
+        closeActiveRecord(null);
+      }
     } else {
+      // An interrupted log still in the store goes to the library before the
+      // new recording replaces it; if that write fails the store is left as is
+      // and the new recording stays in memory only.
+      const pending = interruptedRecording;
+      const startedAt = Date.now();
       setRecordedPath([]); 
+      lastRecordedRef.current = null;
+      segmentRef.current = 0;
+      setIsPaused(false);
       setShowSaveButton(false);
+      setInterruptedRecording(null);
       setIsRecording(true);
+      if (isTrackStoreAvailable()) {
+        const archived = pending 
+          ? saveTrack(createSavedTrack(pending.points)).then(() => {
+              if (!isMountedRef.current) return;
+              setLibraryVersion(v => v + 1);
+              toast({ title: "Interrupted log saved", description: "Moved to the track library" });
+            }) 
+          : Promise.resolve();
+        openActiveRecord(archived, startedAt);
+      }
     }
-  }, [isRecording, recordedPath]);
+  }, [isRecording, recordedPath, closeActiveRecord, openActiveRecord, interruptedRecording]);
+
+  // Resuming opens a new segment so the gap is neither drawn nor counted.
+  const togglePause = useCallback(() => {
+    triggerHaptic();
+    if (!isRecording) return;
+    if (isPaused) {
+      segmentRef.current += 1;
+      lastRecordedRef.current = null;
+      setIsPaused(false);
+    } else {
+      setIsPaused(true);
+    }
+  }, [isRecording, isPaused]);
+
+  const resumeInterruptedRecording = useCallback(() => {
+    triggerHaptic();
+    if (!interruptedRecording) return;
+    const { startedAt, points } = interruptedRecording;
+    setRecordedPath(points);
+    lastRecordedRef.current = null;
+    segmentRef.current = (points[points.length - 1]?.segment ?? 0) + 1;
+    setIsPaused(false);
+    setShowSaveButton(false);
+    setInterruptedRecording(null);
+    setIsRecording(true);
+    if (isTrackStoreAvailable()) openActiveRecord(Promise.resolve(), startedAt, points);
+  }, [interruptedRecording, openActiveRecord]);
+
+  const saveInterruptedRecording = useCallback(() => {
+    triggerHaptic();
+    if (!interruptedRecording) return;
+    setRecordedPath(interruptedRecording.points);
+    setShowSaveButton(true);
+    setInterruptedRecording(null);
+    closeActiveRecord(interruptedRecording.points);
+  }, [interruptedRecording, closeActiveRecord]);
+
+  const discardInterruptedRecording = useCallback(() => {
+    triggerHaptic();
+    setInterruptedRecording(null);
+    clearActiveRecording().catch(err => console.error(err));
+  }, []);
+
+  const changeLocationSource = useCallback((config: LocationSourceConfig) => {
+    setPath([]);
+    setSourceConfig(config);
+  }, []);
 
   const toggleScanner = useCallback(() => {
     triggerHaptic();
@@ -1300,26 +3388,246 @@ export default function GeoLocation() {
     if (!isGestureMode) setIsScannerMode(false);
   }, [isGestureMode]);
 
-  const downloadGPX = useCallback(() => {
+  // Waypoints marked and geofence events logged while the track was being recorded travel with it.
+  const clearGeofenceEventLog = useCallback(() => {
+    setGeofenceEvents([]);
+    if (isTrackStoreAvailable()) clearGeofenceEvents().catch(err => console.error(err));
+  }, []);
+
+  const exportTrack = useCallback((points: GeoPoint[], options: { name?: string, startedAt?: number } = {}) => {
+    const exporter = EXPORTERS[exportFormat];
+    const exported = simplifyConfig.enabled ? simplifyTrack(points, simplifyConfig).points : points;
+    const start = points[0]?.timestamp ?? 0;
+    const end = points[points.length - 1]?.timestamp ?? 0;
+    const inSpan = (timestamp: number) => timestamp >= start && timestamp <= end;
+    const trackWaypoints = [
+      ...waypoints.filter(w => inSpan(w.timestamp)).map(toGPXWaypoint),
+      ...geofenceEvents.filter(e => inSpan(e.timestamp)).map(toGPXEventWaypoint),
+    ];
+    const content = exporter.generate(exported, { name: options.name, units, device: getDeviceInfo(), waypoints: trackWaypoints });
+    downloadFile(content, `mission-log-${fileTimestamp(options.startedAt)}.${exporter.extension}`, exporter.mimeType);
+  }, [exportFormat, units, simplifyConfig, waypoints, geofenceEvents]);
+
+  const downloadLog = useCallback(() => {
     triggerHaptic();
     if (recordedPath.length === 0) return;
-    const gpxString = generateGPX(recordedPath);
-    const blob = new Blob([gpxString], { type: 'application/gpx+xml' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `mission-log-${new Date().toISOString().slice(0,19).replace(/:/g, '-')}.gpx`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    exportTrack(recordedPath);
     setShowSaveButton(false); 
-  }, [recordedPath]);
+  }, [recordedPath, exportTrack]);
+
+  const exportSavedTrack = useCallback((track: SavedTrack) => {
+    triggerHaptic();
+    exportTrack(track.points, { name: track.name, startedAt: track.startedAt });
+  }, [exportTrack]);
+
+  const showTrackOnMap = useCallback((track: SavedTrack) => {
+    triggerHaptic();
+    setMapOverlayTrack(track);
+    setMapFocusBounds(track.bbox);
+    setIsLibraryOpen(false);
+    setIsMapDrawerOpen(true);
+  }, []);
+
+  const addImportedLayer = useCallback((dataset: ImportedDataset) => {
+    setImportedLayers(prev => [...prev, dataset]);
+  }, []);
+
+  const removeImportedLayer = useCallback((id: string) => {
+    setImportedLayers(prev => prev.filter(d => d.id !== id));
+  }, []);
+
+  const showImportOnMap = useCallback((dataset: ImportedDataset) => {
+    triggerHaptic();
+    setMapFocusBounds(dataset.bbox);
+    setIsLibraryOpen(false);
+    setIsMapDrawerOpen(true);
+  }, []);
+
+  const markWaypoint = useCallback(() => {
+    triggerHaptic();
+    if (!coords) return;
+    const waypoint = createWaypoint({ lat: coords.latitude, lng: coords.longitude, alt: coords.altitude }, nextWaypointIndex(waypoints));
+    setWaypoints(prev => [...prev, waypoint]);
+    setEditingWaypointId(waypoint.id);
+    setIsWaypointsOpen(true);
+    if (isTrackStoreAvailable()) saveWaypoint(waypoint).catch(err => console.error("Waypoint save failed", err));
+  }, [coords, waypoints]);
+
+  const addWaypointAt = useCallback((point: { name?: string, lat: number, lng: number }) => {
+    const created = createWaypoint({ lat: point.lat, lng: point.lng, alt: null }, nextWaypointIndex(waypoints));
+    const waypoint = point.name ? { ...created, name: point.name } : created;
+    setWaypoints(prev => [...prev, waypoint]);
+    setEditingWaypointId(waypoint.id);
+    if (isTrackStoreAvailable()) saveWaypoint(waypoint).catch(err => console.error("Waypoint save failed", err));
+  }, [waypoints]);
+
+  const updateWaypoint = useCallback((waypoint: Waypoint) => {
+    setWaypoints(prev => prev.map(w => w.id === waypoint.id ? waypoint : w));
+    if (isTrackStoreAvailable()) saveWaypoint(waypoint).catch(err => console.error("Waypoint save failed", err));
+  }, []);
+
+  const removeWaypoint = useCallback((id: string) => {
+    setWaypoints(prev => prev.filter(w => w.id !== id));
+    if (isTrackStoreAvailable()) deleteWaypoint(id).catch(err => console.error(err));
+  }, []);
+
+  const showWaypointOnMap = useCallback((waypoint: Waypoint) => {
+    triggerHaptic();
+    setMapFocusBounds({ minLat: waypoint.lat, minLng: waypoint.lng, maxLat: waypoint.lat, maxLng: waypoint.lng });
+    setIsWaypointsOpen(false);
+    setIsMapDrawerOpen(true);
+  }, []);
+
+  const showLocationCodeOnMap = useCallback((kind: LocationCodeKind, code: string) => {
+    const decoded = decodeLocationCode(kind, code);
+    if (!decoded) return;
+    triggerHaptic();
+    setMapHighlightCell({ label: code, bounds: decoded.bounds });
+    setMapFocusBounds(decoded.bounds);
+    setIsMapDrawerOpen(true);
+  }, []);
+
+  const exportWaypoints = useCallback(() => {
+    if (waypoints.length === 0) return;
+    const content = generateGPX([], { name: 'Waypoints', units, device: getDeviceInfo(), waypoints: waypoints.map(toGPXWaypoint) });
+    downloadFile(content, `waypoints-${fileTimestamp()}.gpx`, EXPORTERS.gpx.mimeType);
+  }, [waypoints, units]);
+
+  const startGoTo = useCallback((target: { name: string, lat: number, lng: number }) => {
+    triggerHaptic();
+    setActiveRoute(null);
+    setRouteProgress(null);
+    arrivalDetectorRef.current.reset();
+    setHasArrived(false);
+    setNavTarget({ name: target.name, lat: target.lat, lng: target.lng, origin: coords ? { lat: coords.latitude, lng: coords.longitude } : null });
+    setIsWaypointsOpen(false);
+  }, [coords]);
+
+  const stopGoTo = useCallback(() => {
+    setNavTarget(null);
+    setHasArrived(false);
+  }, []);
+
+  const followRoute = useCallback((route: Route) => {
+    triggerHaptic();
+    setNavTarget(null);
+    lastRouteProgressRef.current = null;
+    setRouteProgress(null);
+    setActiveRoute(createRouteNavigator(route));
+    setIsWaypointsOpen(false);
+    setIsLibraryOpen(false);
+  }, []);
+
+  const followImport = useCallback((dataset: ImportedDataset) => {
+    const route = datasetToRoute(dataset);
+    if (route) followRoute(route);
+  }, [followRoute]);
+
+  const stopRoute = useCallback(() => {
+    setActiveRoute(null);
+    setRouteProgress(null);
+  }, []);
+
+  // Prefers the recorded log; the rolling trail is the fallback when nothing was recorded.
+  const isTracBack = activeRoute?.route.kind === 'tracback';
+  const toggleTracBack = useCallback(() => {
+    if (isTracBack) { triggerHaptic(); stopRoute(); return; }
+    const breadcrumbs = recordedPath.length > 1 ? recordedPath : path;
+    if (breadcrumbs.length < 2) return;
+    followRoute(createTracBackRoute(breadcrumbs));
+  }, [isTracBack, recordedPath, path, followRoute, stopRoute]);
+
+  const startDrawingGeofence = useCallback((kind: GeofenceShape['kind']) => {
+    triggerHaptic();
+    setIsGeofencesOpen(false);
+    setDrawMode(kind);
+    setIsMapDrawerOpen(true);
+  }, []);
+
+  const createGeofenceFromShape = useCallback((shape: GeofenceShape) => {
+    const fence = createGeofence(shape, `Fence ${geofences.length + 1}`);
+    setGeofences(prev => [...prev, fence]);
+    setDrawMode(null);
+    setIsMapDrawerOpen(false);
+    setIsGeofencesOpen(true);
+    if (isTrackStoreAvailable()) saveGeofence(fence).catch(err => console.error("Geofence save failed", err));
+  }, [geofences.length]);
+
+  const cancelDrawing = useCallback(() => {
+    setDrawMode(null);
+    setIsMapDrawerOpen(false);
+    setIsGeofencesOpen(true);
+  }, []);
+
+  const updateGeofence = useCallback((fence: Geofence) => {
+    setGeofences(prev => prev.map(f => f.id === fence.id ? fence : f));
+    if (isTrackStoreAvailable()) saveGeofence(fence).catch(err => console.error("Geofence save failed", err));
+  }, []);
+
+  const removeGeofence = useCallback((id: string) => {
+    setGeofences(prev => prev.filter(f => f.id !== id));
+    setInsideFenceIds(prev => prev.filter(x => x !== id));
+    if (isTrackStoreAvailable()) deleteGeofence(id).catch(err => console.error(err));
+  }, []);
+
+  const exportGeofenceEvents = useCallback(() => {
+    if (geofenceEvents.length === 0) return;
+    downloadFile(geofenceEventsToCSV(geofenceEvents), `geofence-events-${fileTimestamp()}.csv`, 'text/csv');
+  }, [geofenceEvents]);
+
+  const closeMapDrawer = useCallback(() => {
+    setIsMapDrawerOpen(false);
+    setDrawMode(null);
+    setMapOverlayTrack(null);
+    setMapFocusBounds(null);
+    setMapHighlightCell(null);
+  }, []);
+
+  useEffect(() => {
+    const shared = takeSharedImports();
+    if (shared.length === 0) return;
+    const datasets = shared.flatMap(({ name, text }) => {
+      try { return [parseImportFile(name, text)]; } catch (err) { console.error("Shared import failed", name, err); return []; }
+    });
+    if (datasets.length > 0) {
+      setImportedLayers(prev => [...prev, ...datasets]);
+      setIsLibraryOpen(true);
+    }
+  }, []);
+
+  // Long lines are simplified for drawing only; exports use the full data unless simplification is enabled.
+  const renderedImports = useMemo(() => importedLayers.map(d => ({
+    ...d,
+    lines: d.lines.map(l => ({ ...l, segments: l.segments.map(seg => seg.length > RENDER_SIMPLIFY_MIN_POINTS ? simplifyLine(seg, simplifyConfig.tolerance) : seg) })),
+  })), [importedLayers, simplifyConfig.tolerance]);
+  const renderedOverlayTrack = useMemo(() => {
+    if (!mapOverlayTrack || mapOverlayTrack.points.length <= RENDER_SIMPLIFY_MIN_POINTS) return mapOverlayTrack;
+    return { ...mapOverlayTrack, points: simplifyTrack(mapOverlayTrack.points, { algorithm: 'douglas-peucker', tolerance: simplifyConfig.tolerance }).points };
+  }, [mapOverlayTrack, simplifyConfig.tolerance]);
+  const overlayLines = useMemo(() => renderedImports.flatMap(d => d.lines.flatMap(l => l.segments)), [renderedImports]);
+  const overlayPoints = useMemo(() => renderedImports.flatMap(d => d.waypoints), [renderedImports]);
+  const recordedSimplifyStats = useMemo(() => 
+    showSaveButton && recordedPath.length > 2 ? simplifyTrack(recordedPath, simplifyConfig).stats : null, 
+  [showSaveButton, recordedPath, simplifyConfig]);
+
+  const coordinateRows = useMemo(() => 
+    coords ? formatCoordinateRows(coords.latitude, coords.longitude, coordinateFormat) : [], 
+  [coords, coordinateFormat]);
+
+  const locationCodes = useMemo(() => {
+    if (!coords) return [];
+    const { latitude: lat, longitude: lng } = coords;
+    return [
+      { kind: 'pluscode' as const, code: encodePlusCode(lat, lng) },
+      { kind: 'geohash' as const, code: encodeGeohash(lat, lng, geohashPrecision) },
+      { kind: 'maidenhead' as const, code: encodeMaidenhead(lat, lng) },
+    ];
+  }, [coords, geohashPrecision]);
 
   const handleShare = async () => {
     triggerHaptic();
     if (!coords) return;
-    const text = `Lat: ${coords.latitude.toFixed(6)}, Lng: ${coords.longitude.toFixed(6)}`;
+    const text = formatPosition(coords.latitude, coords.longitude, coordinateFormat);
     const url = `https://www.google.com/maps?q=${coords.latitude},${coords.longitude}`;
     if (navigator.share) {
       try { await navigator.share({ title: 'My Location', text, url }); } catch (err) { console.error(err); }
@@ -1330,6 +3638,14 @@ export default function GeoLocation() {
 
   const recenterMap = useCallback(() => { if (coords) setPath([{ lat: coords.latitude, lng: coords.longitude, alt: coords.altitude, timestamp: Date.now() }]); }, [coords]);
   const toggleUnits = useCallback(() => { triggerHaptic(); setUnits(prev => prev === 'metric' ? 'imperial' : 'metric'); }, []);
+
+  const cycleCoordinateFormat = useCallback(() => {
+    triggerHaptic();
+    const index = COORDINATE_FORMATS.findIndex(f => f.id === coordinateFormat);
+    const next = COORDINATE_FORMATS[(index + 1) % COORDINATE_FORMATS.length].id;
+    setCoordinateFormat(next);
+    if (isTrackStoreAvailable()) saveSetting('coordinateFormat', next).catch(err => console.error(err));
+  }, [coordinateFormat]);
   const toggleMapMode = useCallback(() => setMapMode(prev => prev === 'heading-up' ? 'north-up' : 'heading-up'), []);
   const debouncedCoords = useDebounce(coords, 2000);
 
@@ -1349,7 +3665,7 @@ export default function GeoLocation() {
         const signal = abortControllerRef.current?.signal;
         const [geoRes, weatherRes] = await Promise.allSettled([
           fetch(`https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}&zoom=14`, { signal }),
-          fetch(`https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=temperature_2m,weather_code,wind_speed_10m,wind_direction_10m&daily=sunrise,sunset&forecast_days=2&timezone=auto`, { signal })
+          fetch(`https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=temperature_2m,weather_code,wind_speed_10m,wind_direction_10m&timezone=auto`, { signal })
         ]);
         
         if (signal?.aborted || !isMountedRef.current) return;
@@ -1374,9 +3690,7 @@ export default function GeoLocation() {
               code: data.current.weather_code, 
               description: info.label,
               windSpeed: data.current.wind_speed_10m,
-              windDir: data.current.wind_direction_10m,
-              sunrise: data.daily.sunrise,
-              sunset: data.daily.sunset
+              windDir: data.current.wind_direction_10m
             });
           } catch (e) {}
         }
@@ -1412,7 +3726,7 @@ export default function GeoLocation() {
              </div>
              <div className="flex items-center gap-1.5 mt-1 ml-0.5">
                  <div className={`w-1.5 h-1.5 rounded-full ${coords ? "bg-green-500 shadow-[0_0_5px_#22c55e]" : "bg-red-500"}`} />
-                 <span className="text-[9px] font-bold uppercase tracking-wider text-muted-foreground">{coords ? "Online" : "Searching"}</span>
+                 <span className="text-[9px] font-bold uppercase tracking-wider text-muted-foreground">{coords ? (sourceConfig.kind === 'browser' ? "Online" : locationProvider.label) : "Searching"}</span>
              </div>
          </div>
 
@@ -1426,9 +3740,14 @@ export default function GeoLocation() {
                </div>
             )}
             <button onClick={toggleRecording} className={`group flex items-center gap-2 px-4 py-2 rounded-full border text-[10px] font-bold uppercase tracking-wider transition-all active:scale-95 ${isRecording ? "bg-red-500/10 border-red-500/50 text-red-500 shadow-[0_0_10px_rgba(239,68,68,0.2)]" : "bg-white/5 border-white/10 text-muted-foreground hover:bg-white/10 hover:text-white"}`}>
-               {isRecording ? <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse" /> : <Circle className="w-2 h-2 group-hover:text-white transition-colors" />}
-               {isRecording ? "REC" : "LOG"}
+               {isRecording ? <div className={`w-2 h-2 rounded-full bg-red-500 ${isPaused ? '' : 'animate-pulse'}`} /> : <Circle className="w-2 h-2 group-hover:text-white transition-colors" />}
+               {isRecording ? (isPaused ? "HOLD" : "REC") : "LOG"}
             </button>
+            {isRecording && (
+              <button onClick={togglePause} aria-label={isPaused ? "Resume recording" : "Pause recording"} className={`p-2 rounded-full border text-[10px] transition-all active:scale-95 animate-in fade-in ${isPaused ? "bg-yellow-500/10 border-yellow-500/50 text-yellow-500" : "bg-white/5 border-white/10 text-muted-foreground hover:text-white"}`}>
+                 {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+              </button>
+            )}
             <button onClick={toggleUnits} className="px-3 py-2 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 text-[10px] font-bold uppercase tracking-wider text-muted-foreground hover:text-white transition-all active:scale-95">
                {units === 'metric' ? 'MET' : 'IMP'}
             </button>
@@ -1442,6 +3761,21 @@ export default function GeoLocation() {
             <button onClick={toggleScanner} className={`p-2 rounded-full border text-[10px] transition-all active:scale-95 ${isScannerMode ? "bg-green-500/10 border-green-500/50 text-green-500" : "bg-white/5 border-white/10 text-muted-foreground hover:text-white"}`}>
                <Aperture className="w-4 h-4" />
             </button>
+
+            {/* Geofences */}
+            <button onClick={() => { triggerHaptic(); setIsGeofencesOpen(true); }} className={`p-2 rounded-full border text-[10px] transition-all active:scale-95 ${insideFenceIds.length > 0 ? "bg-purple-500/10 border-purple-500/50 text-purple-400" : "bg-white/5 border-white/10 text-muted-foreground hover:text-white"}`}>
+               <Fence className="w-4 h-4" />
+            </button>
+
+            {/* Track Library */}
+            <button onClick={() => { triggerHaptic(); setIsLibraryOpen(true); }} className="p-2 rounded-full border text-[10px] transition-all active:scale-95 bg-white/5 border-white/10 text-muted-foreground hover:text-white">
+               <Library className="w-4 h-4" />
+            </button>
+
+            {/* Dev Settings */}
+            <button onClick={() => { triggerHaptic(); setIsDevSettingsOpen(true); }} className={`p-2 rounded-full border text-[10px] transition-all active:scale-95 ${sourceConfig.kind !== 'browser' ? "bg-yellow-500/10 border-yellow-500/50 text-yellow-500" : "bg-white/5 border-white/10 text-muted-foreground hover:text-white"}`}>
+               <SlidersHorizontal className="w-4 h-4" />
+            </button>
          </div>
       </div>
 
@@ -1455,6 +3789,22 @@ export default function GeoLocation() {
         </div>
       )}
 
+      {isSunSightOpen && coords && (
+        <div className="fixed inset-0 z-50 animate-in fade-in zoom-in duration-300">
+            <SunSight 
+              lat={coords.latitude} 
+              lng={coords.longitude} 
+              heading={permissionGranted && camera?.heading != null ? normalizeDegrees(camera.heading + (declination ?? 0)) : null} 
+              elevation={permissionGranted ? camera?.elevation ?? null : null} 
+              readingAt={camera?.timestamp ?? null} 
+              onCapture={applySunSight} 
+            />
+            <button onClick={() => setIsSunSightOpen(false)} className="absolute top-4 right-4 z-[60] p-3 bg-black/50 border border-white/20 rounded-full text-white backdrop-blur-md">
+                <X className="w-6 h-6" />
+            </button>
+        </div>
+      )}
+
       <div className="w-full max-w-5xl flex flex-col items-center justify-start space-y-6 z-10">
         {loading && !coords && (
           <div className="flex flex-col items-center justify-center h-64 space-y-6 animate-pulse">
@@ -1471,11 +3821,38 @@ export default function GeoLocation() {
            </Alert>
         )}
 
+        {interruptedRecording && !isRecording && (
+          <DataCard className="w-full max-w-md space-y-3 border-red-500/30 animate-in slide-in-from-top-4 fade-in">
+             <div className="flex items-center justify-between">
+                <span className="text-[10px] uppercase font-bold text-red-400 tracking-widest flex items-center gap-2"><History className="w-3 h-3" /> Interrupted Log</span>
+                <span className="text-[9px] font-mono text-muted-foreground">{formatTime(new Date(interruptedRecording.startedAt).toISOString())}</span>
+             </div>
+             <p className="text-[10px] font-mono text-white/70">
+                {interruptedRecording.points.length} pts · {(calculateTotalDistance(interruptedRecording.points) / 1000).toFixed(2)} km {interruptedRecording.stoppedAt ? "· not saved" : "· recording was cut off"}
+             </p>
+             <div className="grid grid-cols-3 gap-2">
+                {!interruptedRecording.stoppedAt && (
+                  <button onClick={resumeInterruptedRecording} className="py-2 rounded-lg bg-red-500/10 border border-red-500/40 text-red-400 text-[10px] font-bold uppercase tracking-wider active:scale-95 transition-all">Resume</button>
+                )}
+                <button onClick={saveInterruptedRecording} className="py-2 rounded-lg bg-green-500/10 border border-green-500/40 text-green-500 text-[10px] font-bold uppercase tracking-wider active:scale-95 transition-all">Save</button>
+                <button onClick={discardInterruptedRecording} className="py-2 rounded-lg bg-white/5 border border-white/10 text-muted-foreground hover:text-white text-[10px] font-bold uppercase tracking-wider active:scale-95 transition-all">Discard</button>
+             </div>
+          </DataCard>
+        )}
+
         {showSaveButton && !isRecording && (
           <div className="w-full max-w-md animate-in slide-in-from-top-4 fade-in">
-             <button onClick={downloadGPX} className="w-full py-4 rounded-xl bg-green-500 text-black font-bold uppercase tracking-widest shadow-[0_0_20px_rgba(34,197,94,0.4)] flex items-center justify-center gap-2 active:scale-95 transition-transform hover:bg-green-400">
-                <Download className="w-5 h-5" /> Download Log
-             </button>
+             <div className="flex gap-2">
+                <button onClick={downloadLog} className="flex-1 py-4 rounded-xl bg-green-500 text-black font-bold uppercase tracking-widest shadow-[0_0_20px_rgba(34,197,94,0.4)] flex items-center justify-center gap-2 active:scale-95 transition-transform hover:bg-green-400">
+                   <Download className="w-5 h-5" /> Download Log
+                </button>
+                <ExportFormatPicker value={exportFormat} onChange={setExportFormat} />
+             </div>
+             {recordedPath.length > 2 && (
+               <DataCard className="mt-3">
+                 <SimplifyControls config={simplifyConfig} onChange={setSimplifyConfig} stats={recordedSimplifyStats} units={units} />
+               </DataCard>
+             )}
           </div>
         )}
 
@@ -1488,6 +3865,12 @@ export default function GeoLocation() {
                            <MapPin className="w-3 h-3 text-green-500" /> Coordinates
                         </span>
                         <div className="flex gap-2">
+                          <button onClick={cycleCoordinateFormat} title={COORDINATE_FORMATS.find(f => f.id === coordinateFormat)?.label} aria-label="Coordinate format" className="px-1.5 hover:bg-white/10 rounded-md text-[9px] font-mono font-bold text-muted-foreground hover:text-white transition-colors">
+                             {COORDINATE_FORMATS.find(f => f.id === coordinateFormat)?.shortLabel}
+                          </button>
+                          <button onClick={() => { triggerHaptic(); setIsWaypointsOpen(true); }} aria-label="Waypoints" className="flex items-center gap-1 px-1.5 hover:bg-white/10 rounded-md text-muted-foreground hover:text-orange-400 transition-colors">
+                             <Flag className="w-3.5 h-3.5" /><span className="text-[9px] font-mono font-bold">{waypoints.length}</span>
+                          </button>
                           <button onClick={handleShare} className="p-1.5 hover:bg-white/10 rounded-md text-muted-foreground hover:text-white transition-colors"><Share2 className="w-3.5 h-3.5" /></button>
                           <div className="flex items-center gap-1 px-2 py-1 bg-black/40 rounded border border-white/10">
                              <Signal className={`w-3 h-3 ${(coords.accuracy || 100) < 15 ? 'text-green-500' : (coords.accuracy || 100) < 50 ? 'text-yellow-500' : 'text-red-500'}`} />
@@ -1495,22 +3878,67 @@ export default function GeoLocation() {
                           </div>
                         </div>
                     </div>
+                    <div className="flex gap-2">
+                       <div className="flex-1 min-w-0 space-y-2">
+                          {coordinateRows.map(row => <CoordinateRow key={row.label} label={row.label} formattedValue={row.value} />)}
+                       </div>
+                       <button onClick={markWaypoint} aria-label="Mark waypoint" className="w-16 shrink-0 rounded-lg bg-orange-500/10 hover:bg-orange-500/20 border border-orange-500/30 text-orange-400 flex flex-col items-center justify-center gap-1.5 active:scale-95 transition-all">
+                          <MapPinPlus className="w-5 h-5" />
+                          <span className="text-[9px] font-bold uppercase tracking-widest">Mark</span>
+                       </button>
+                    </div>
                     <div className="space-y-2">
-                       <CoordinateRow label="LAT" value={coords.latitude} type="lat" />
-                       <CoordinateRow label="LNG" value={coords.longitude} type="lng" />
+                       {locationCodes.map(({ kind, code }) => (
+                          <LocationCodeRow key={kind} label={LOCATION_CODE_LABELS[kind]} code={code} onShowOnMap={() => showLocationCodeOnMap(kind, code)}>
+                             {kind === 'geohash' && (
+                                <div className="w-8 shrink-0 flex flex-col items-center justify-between rounded-lg bg-black/20 text-muted-foreground">
+                                   <button onClick={() => { triggerHaptic(); setGeohashPrecision(p => Math.min(p + 1, GEOHASH_PRECISION_RANGE.max)); }} aria-label="Increase geohash precision" className="w-full flex justify-center py-0.5 hover:text-white"><Plus className="w-3 h-3" /></button>
+                                   <span className="text-[9px] font-mono font-bold text-white/70">{geohashPrecision}</span>
+                                   <button onClick={() => { triggerHaptic(); setGeohashPrecision(p => Math.max(p - 1, GEOHASH_PRECISION_RANGE.min)); }} aria-label="Decrease geohash precision" className="w-full flex justify-center py-0.5 hover:text-white"><Minus className="w-3 h-3" /></button>
+                                </div>
+                             )}
+                          </LocationCodeRow>
+                       ))}
                     </div>
                     <button onClick={() => { triggerHaptic(); setIsMapDrawerOpen(true); }} className="w-full py-3 rounded-lg bg-green-500/10 hover:bg-green-500/20 border border-green-500/20 text-green-500 text-[10px] font-bold uppercase tracking-widest flex items-center justify-center gap-2 transition-all active:scale-[0.98]">
                       Expand Map View
                     </button>
                  </DataCard>
 
-                 <div className="grid grid-cols-3 gap-3 h-24">
+                 {navTarget && goTo && (
+                   <GoToCard 
+                     target={navTarget} 
+                     solution={goTo} 
+                     heading={effectiveTrueHeading} 
+                     arrived={hasArrived} 
+                     arrivalRadius={arrivalRadius} 
+                     onArrivalRadiusChange={setArrivalRadius} 
+                     onStop={stopGoTo} 
+                     units={units} 
+                   />
+                 )}
+
+                 {activeRoute && routeProgress && (
+                   <RouteCard 
+                     route={activeRoute.route} 
+                     progress={routeProgress} 
+                     speed={coords.speed} 
+                     offRouteDistance={offRouteDistance} 
+                     onOffRouteDistanceChange={setOffRouteDistance} 
+                     onStop={stopRoute} 
+                     units={units} 
+                   />
+                 )}
+
+                 <div className="grid grid-cols-4 gap-2 h-24">
                     <StatCard icon={Mountain} label="ALT" value={convertAltitude(coords.altitude, units)} unit={units === 'metric' ? 'm' : 'ft'} />
                     <StatCard icon={Activity} label="SPD" value={convertSpeed(coords.speed, units)} unit={units === 'metric' ? 'kph' : 'mph'} />
-                    <StatCard icon={Navigation} label="ACC" value={coords.accuracy ? `±${Math.round(coords.accuracy)}` : '--'} unit="m" />
+                    <StatCard icon={Navigation} label="ACC" value={coords.accuracy ? `±${Math.round(coords.accuracy)}` : '--'} unit="m" subValue={rawCoords?.accuracy ? `RAW ±${Math.round(rawCoords.accuracy)}` : undefined} />
+                    <StatCard icon={Ban} label="REJ" value={`${rejections.count}`} subValue={rejections.last ? FIX_REJECTION_LABELS[rejections.last.reason] : 'Fix OK'} className={rejections.count > 0 ? 'border-red-500/20' : undefined} />
                  </div>
 
-                 {weather && weather.sunrise && <SolarCard sunrise={weather.sunrise} sunset={weather.sunset} />}
+                 <SolarCard lat={coords.latitude} lng={coords.longitude} />
+                 {celestial && <MoonCard lat={coords.latitude} lng={coords.longitude} position={celestial.moon} />}
                  
                  {weather && (
                    <DataCard className="flex items-center justify-between !p-0 overflow-hidden bg-gradient-to-r from-blue-950/30 to-transparent">
@@ -1536,12 +3964,25 @@ export default function GeoLocation() {
                  <div className="relative w-full flex flex-col items-center justify-center py-6 gap-6 md:gap-8">
                      <div className="absolute inset-y-0 left-1/2 w-px bg-gradient-to-b from-transparent via-white/10 to-transparent -z-10" />
                      <CompassDisplay 
-                        heading={effectiveHeading} 
-                        trueHeading={effectiveTrueHeading} 
-                        onClick={requestAccess} 
+                        heading={effectiveHeading + fromTrueNorth} 
+                        trueHeading={effectiveTrueHeading !== null ? normalizeDegrees(effectiveTrueHeading + fromTrueNorth) : null} 
+                        onClick={handleCompassTap} 
                         hasError={!!compassError} 
                         permissionGranted={permissionGranted}
-                        source={isMoving ? 'GPS' : 'MAG'}
+                        source={fusedHeading.dominant}
+                        gpsConfidence={fusedHeading.gpsConfidence}
+                        magneticConfidence={fusedHeading.magneticConfidence}
+                        targetBearing={targetBearing !== null ? targetBearing + fromTrueNorth : null}
+                        northReference={northReference}
+                        onNorthReferenceChange={setNorthReference}
+                        declination={declination}
+                        correction={toTrueNorth + fromTrueNorth}
+                        gridAvailable={gridConvergence !== null}
+                        method={headingMethod}
+                        health={compassHealth}
+                        celestial={dialCelestial}
+                        headingOffset={headingOffset}
+                        onResetHeadingOffset={resetHeadingOffset}
                      />
                      <div className="relative z-10">
                          <div className="absolute -top-8 left-1/2 -translate-x-1/2 w-px h-8 bg-gradient-to-b from-white/10 to-white/30" />
@@ -1554,24 +3995,120 @@ export default function GeoLocation() {
                           lat={coords.latitude} 
                           lng={coords.longitude} 
                           heading={effectiveHeading || 0}
+                          gpsConfidence={fusedHeading.gpsConfidence}
+                          magneticConfidence={fusedHeading.magneticConfidence}
+                          celestial={celestial}
                           mode={mapMode}
                           accuracy={coords.accuracy}
                           zoom={RADAR_ZOOM}
                           onRecenter={recenterMap}
                           onToggleMode={toggleMapMode}
+                          overlayLines={overlayLines}
+                          overlayPoints={overlayPoints}
+                          waypoints={waypoints}
+                          routeLine={activeRoute?.route.points}
+                          routeNext={routeProgress && !routeProgress.finished ? routeProgress.next : null}
                         />
-                        {path.length > 1 && (
-                          <button onClick={() => { triggerHaptic(); recenterMap(); }} className="mt-8 text-[8px] text-muted-foreground hover:text-red-400 uppercase tracking-widest font-bold flex items-center gap-2 transition-colors py-1.5 px-3 rounded-full hover:bg-white/5 border border-transparent hover:border-red-500/20">
-                            <Trash2 className="w-3 h-3" /> Clear Trail
-                          </button>
-                        )}
+                        <div className="mt-8 flex items-center gap-2">
+                          {(recordedPath.length > 1 || path.length > 1) && (
+                            <button onClick={toggleTracBack} className={`text-[8px] uppercase tracking-widest font-bold flex items-center gap-2 transition-colors py-1.5 px-3 rounded-full border ${isTracBack ? 'text-orange-400 bg-orange-500/10 border-orange-500/30' : 'text-muted-foreground hover:text-orange-400 hover:bg-white/5 border-transparent hover:border-orange-500/20'}`}>
+                              <Undo2 className="w-3 h-3" /> {isTracBack ? 'Stop Return' : 'Return to Start'}
+                            </button>
+                          )}
+                          {path.length > 1 && (
+                            <button onClick={() => { triggerHaptic(); recenterMap(); }} className="text-[8px] text-muted-foreground hover:text-red-400 uppercase tracking-widest font-bold flex items-center gap-2 transition-colors py-1.5 px-3 rounded-full hover:bg-white/5 border border-transparent hover:border-red-500/20">
+                              <Trash2 className="w-3 h-3" /> Clear Trail
+                            </button>
+                          )}
+                        </div>
                      </div>
                  </div>
              </div>
           </div>
         )}
       </div>
-      {coords && <FullMapDrawer isOpen={isMapDrawerOpen} onClose={() => setIsMapDrawerOpen(false)} lat={coords.latitude} lng={coords.longitude} />}
+      <CompassCalibrationSheet 
+        open={isCalibrationOpen} 
+        onOpenChange={setIsCalibrationOpen} 
+        heading={trueHeading} 
+        pitch={pitch} 
+        roll={roll} 
+        health={compassHealth} 
+        onComplete={finishCalibration} 
+        onSunSight={celestial && celestial.sun.elevation > 0 ? openSunSight : null} 
+      />
+      <DevSettingsSheet 
+        open={isDevSettingsOpen} 
+        onOpenChange={setIsDevSettingsOpen} 
+        config={sourceConfig} 
+        onChange={changeLocationSource} 
+        replayRate={replayRate} 
+        onReplayRateChange={setReplayRate} 
+        center={coords ? { lat: coords.latitude, lng: coords.longitude } : DEFAULT_SIM_CENTER} 
+      />
+      <TrackLibrarySheet 
+        open={isLibraryOpen} 
+        onOpenChange={setIsLibraryOpen} 
+        version={libraryVersion} 
+        units={units} 
+        exportFormat={exportFormat} 
+        simplifyConfig={simplifyConfig}
+        onSimplifyChange={setSimplifyConfig}
+        onExport={exportSavedTrack} 
+        onShowOnMap={showTrackOnMap} 
+        imported={importedLayers}
+        onImport={addImportedLayer}
+        onRemoveImport={removeImportedLayer}
+        onShowImport={showImportOnMap}
+        onFollowImport={followImport}
+      />
+      <GeofenceSheet 
+        open={isGeofencesOpen} 
+        onOpenChange={setIsGeofencesOpen} 
+        geofences={geofences} 
+        insideIds={insideFenceIds} 
+        events={geofenceEvents} 
+        onDraw={startDrawingGeofence} 
+        onUpdate={updateGeofence} 
+        onDelete={removeGeofence} 
+        onExportEvents={exportGeofenceEvents} 
+        onClearEvents={clearGeofenceEventLog} 
+        units={units} 
+      />
+      <WaypointSheet 
+        open={isWaypointsOpen} 
+        onOpenChange={setIsWaypointsOpen} 
+        waypoints={waypoints} 
+        editingId={editingWaypointId} 
+        onEdit={setEditingWaypointId} 
+        onUpdate={updateWaypoint} 
+        onDelete={removeWaypoint} 
+        onShowOnMap={showWaypointOnMap} 
+        onNavigate={startGoTo} 
+        onCreateWaypoint={addWaypointAt} 
+        onFollowRoute={followRoute} 
+        onExport={exportWaypoints} 
+        position={coords ? { lat: coords.latitude, lng: coords.longitude } : null} 
+        units={units} 
+        coordinateFormat={coordinateFormat} 
+      />
+      {coords && (
+        <FullMapDrawer 
+          isOpen={isMapDrawerOpen} 
+          onClose={closeMapDrawer} 
+          lat={coords.latitude} 
+          lng={coords.longitude} 
+          overlayTrack={renderedOverlayTrack} 
+          imported={renderedImports} 
+          waypoints={waypoints} 
+          geofences={geofences} 
+          drawMode={drawMode} 
+          onDrawComplete={createGeofenceFromShape} 
+          onDrawCancel={cancelDrawing} 
+          highlightCell={mapHighlightCell} 
+          focusBounds={mapFocusBounds} 
+        />
+      )}
     </main>
   );
 }
\ No newline at end of file
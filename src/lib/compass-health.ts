@@ -0,0 +1,158 @@
+// Magnetometer sanity checks. Three independent signals mark the compass
+// unreliable: the magnetic heading disagreeing with GPS course while moving,
+// heading samples jumping erratically, and (where a Magnetometer sensor is
+// exposed) field strength far from the WMM prediction. Each signal has
+// separate enter/exit thresholds so the state doesn't flicker, and a flag
+// expires once its signal has gone quiet for a whole window past the last
+// sample, e.g. after stopping, when no course comparisons arrive to clear it.
+
+const COURSE_WINDOW = 20_000; // ms
+const COURSE_MIN_SAMPLES = 5;
+const COURSE_MIN_SPAN = 5_000; // ms
+const DISAGREEMENT_ENTER = 30; // degrees, median |magnetic − course|
+const DISAGREEMENT_EXIT = 15;
+
+const JITTER_WINDOW = 2_000; // ms
+const JITTER_MIN_SAMPLES = 10;
+const JITTER_JUMP = 20; // degrees between consecutive samples
+const JITTER_ENTER = 0.3; // share of jumps in the window
+const JITTER_EXIT = 0.1;
+
+const FIELD_WINDOW = 3_000; // ms
+const FIELD_ENTER = 0.35; // relative deviation from the expected strength
+const FIELD_EXIT = 0.2;
+
+export type CompassIssue = 'disagreement' | 'erratic' | 'field';
+
+export const COMPASS_ISSUE_LABELS: Record<CompassIssue, string> = {
+  disagreement: 'Disagrees with GPS course',
+  erratic: 'Erratic readings',
+  field: 'Magnetic interference',
+};
+
+export type CompassHealth = {
+  reliable: boolean;
+  issue: CompassIssue | null;
+  courseOffset: number | null; // degrees, median magnetic − course while moving
+};
+
+export const angleDifference = (a: number, b: number) => ((a - b) % 360 + 540) % 360 - 180;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+type Sample = { timestamp: number; value: number };
+
+const prune = (samples: Sample[], timestamp: number, window: number) => {
+  while (samples.length > 0 && timestamp - samples[0].timestamp > window) samples.shift();
+};
+
+export const createCompassHealthMonitor = () => {
+  const courseDiffs: Sample[] = [];
+  const jumps: Sample[] = [];
+  const fieldDeviations: Sample[] = [];
+  let lastHeading: number | null = null;
+  const flags: Record<CompassIssue, boolean> = { disagreement: false, erratic: false, field: false };
+  const lastSampleAt: Record<CompassIssue, number | null> = { disagreement: null, erratic: null, field: null };
+
+  const hysteresis = (issue: CompassIssue, value: number | null, enter: number, exit: number, window: number, timestamp: number) => {
+    if (value === null) {
+      const last = lastSampleAt[issue];
+      if (flags[issue] && (last === null || timestamp - last > 2 * window)) flags[issue] = false;
+      return;
+    }
+    if (!flags[issue] && value > enter) flags[issue] = true;
+    else if (flags[issue] && value < exit) flags[issue] = false;
+  };
+
+  return {
+    addHeading(heading: number, timestamp: number) {
+      if (lastHeading !== null) jumps.push({ timestamp, value: Math.abs(angleDifference(heading, lastHeading)) > JITTER_JUMP ? 1 : 0 });
+      lastHeading = heading;
+      lastSampleAt.erratic = timestamp;
+      prune(jumps, timestamp, JITTER_WINDOW);
+    },
+    // Both headings relative to true north.
+    addCourse(magneticHeading: number, course: number, timestamp: number) {
+      courseDiffs.push({ timestamp, value: angleDifference(magneticHeading, course) });
+      lastSampleAt.disagreement = timestamp;
+      prune(courseDiffs, timestamp, COURSE_WINDOW);
+    },
+    addFieldStrength(measured: number, expected: number, timestamp: number) {
+      if (expected <= 0) return;
+      fieldDeviations.push({ timestamp, value: Math.abs(measured - expected) / expected });
+      lastSampleAt.field = timestamp;
+      prune(fieldDeviations, timestamp, FIELD_WINDOW);
+    },
+    evaluate(timestamp: number): CompassHealth {
+      prune(courseDiffs, timestamp, COURSE_WINDOW);
+      prune(jumps, timestamp, JITTER_WINDOW);
+      prune(fieldDeviations, timestamp, FIELD_WINDOW);
+
+      const hasCourse = courseDiffs.length >= COURSE_MIN_SAMPLES && courseDiffs[courseDiffs.length - 1].timestamp - courseDiffs[0].timestamp >= COURSE_MIN_SPAN;
+      const courseOffset = hasCourse ? median(courseDiffs.map(s => s.value)) : null;
+      hysteresis('disagreement', courseOffset !== null ? Math.abs(courseOffset) : null, DISAGREEMENT_ENTER, DISAGREEMENT_EXIT, COURSE_WINDOW, timestamp);
+      hysteresis('erratic', jumps.length >= JITTER_MIN_SAMPLES ? jumps.reduce((sum, s) => sum + s.value, 0) / jumps.length : null, JITTER_ENTER, JITTER_EXIT, JITTER_WINDOW, timestamp);
+      hysteresis('field', fieldDeviations.length > 0 ? median(fieldDeviations.map(s => s.value)) : null, FIELD_ENTER, FIELD_EXIT, FIELD_WINDOW, timestamp);
+
+      const issue = (['field', 'erratic', 'disagreement'] as const).find(i => flags[i]) ?? null;
+      return { reliable: issue === null, issue, courseOffset };
+    },
+    reset() {
+      courseDiffs.length = 0;
+      jumps.length = 0;
+      fieldDeviations.length = 0;
+      lastHeading = null;
+      flags.disagreement = flags.erratic = flags.field = false;
+      lastSampleAt.disagreement = lastSampleAt.erratic = lastSampleAt.field = null;
+    },
+  };
+};
+
+export type CompassHealthMonitor = ReturnType<typeof createCompassHealthMonitor>;
+
+// --- Calibration ---
+// A figure-eight sweeps the phone through every heading and tilts it both
+// ways on both axes; progress is the share of that motion seen so far.
+
+const HEADING_BINS = 24;
+const TILT_THRESHOLD = 30; // degrees of pitch or roll
+const HEADING_WEIGHT = 0.75;
+
+export type CalibrationProgress = {
+  progress: number; // 0–1
+  headingBins: boolean[];
+  tilts: { pitchUp: boolean; pitchDown: boolean; rollLeft: boolean; rollRight: boolean };
+  complete: boolean;
+};
+
+export const createCalibrationTracker = () => {
+  let headingBins = new Array<boolean>(HEADING_BINS).fill(false);
+  let tilts = { pitchUp: false, pitchDown: false, rollLeft: false, rollRight: false };
+
+  const snapshot = (): CalibrationProgress => {
+    const headingShare = headingBins.filter(Boolean).length / HEADING_BINS;
+    const tiltShare = Object.values(tilts).filter(Boolean).length / 4;
+    const progress = headingShare * HEADING_WEIGHT + tiltShare * (1 - HEADING_WEIGHT);
+    return { progress, headingBins: [...headingBins], tilts: { ...tilts }, complete: progress >= 1 };
+  };
+
+  return {
+    update(heading: number, pitch: number, roll: number): CalibrationProgress {
+      headingBins[Math.floor(((heading % 360) + 360) % 360 / (360 / HEADING_BINS)) % HEADING_BINS] = true;
+      if (pitch > TILT_THRESHOLD) tilts.pitchUp = true;
+      if (pitch < -TILT_THRESHOLD) tilts.pitchDown = true;
+      if (roll < -TILT_THRESHOLD) tilts.rollLeft = true;
+      if (roll > TILT_THRESHOLD) tilts.rollRight = true;
+      return snapshot();
+    },
+    reset(): CalibrationProgress {
+      headingBins = new Array<boolean>(HEADING_BINS).fill(false);
+      tilts = { pitchUp: false, pitchDown: false, rollLeft: false, rollRight: false };
+      return snapshot();
+    },
+  };
+};
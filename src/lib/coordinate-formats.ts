@@ -0,0 +1,228 @@
+import { toRad } from '@/lib/geo';
+
+// Display formats for a position. Angular formats render latitude and
+// longitude separately; UTM and MGRS are a single grid reference on WGS84.
+// Grid formats are undefined beyond the UTM latitude limits (polar UPS areas
+// aren't supported), where callers fall back to decimal degrees.
+
+export type CoordinateFormat = 'dd' | 'dms' | 'ddm' | 'utm' | 'mgrs';
+
+export const COORDINATE_FORMATS: { id: CoordinateFormat, label: string, shortLabel: string }[] = [
+  { id: 'dd', label: 'Decimal degrees', shortLabel: 'DD' },
+  { id: 'dms', label: 'Degrees minutes seconds', shortLabel: 'DMS' },
+  { id: 'ddm', label: 'Degrees decimal minutes', shortLabel: 'DDM' },
+  { id: 'utm', label: 'UTM', shortLabel: 'UTM' },
+  { id: 'mgrs', label: 'MGRS', shortLabel: 'MGRS' },
+];
+
+export const DEFAULT_COORDINATE_FORMAT: CoordinateFormat = 'dd';
+
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const E2 = WGS84_F * (2 - WGS84_F);
+const EP2 = E2 / (1 - E2);
+const K0 = 0.9996;
+const FALSE_EASTING = 500_000;
+const FALSE_NORTHING_SOUTH = 10_000_000;
+
+export const UTM_MIN_LAT = -80;
+export const UTM_MAX_LAT = 84;
+export const UTM_BANDS = 'CDEFGHJKLMNPQRSTUVWX';
+
+export type UTMCoordinate = {
+  zone: number;
+  band: string;
+  hemisphere: 'N' | 'S';
+  easting: number; // m
+  northing: number; // m
+};
+
+const hemisphereLetter = (value: number, type: 'lat' | 'lng') =>
+  type === 'lat' ? (value >= 0 ? 'N' : 'S') : (value >= 0 ? 'E' : 'W');
+
+// Rounds to the last displayed unit first so 59.99″ never shows as 60″.
+const splitDMS = (value: number, secondDecimals: number) => {
+  const scale = 10 ** secondDecimals;
+  const totalSeconds = Math.round(Math.abs(value) * 3600 * scale) / scale;
+  const degrees = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds - degrees * 3600) / 60);
+  return { degrees, minutes, seconds: totalSeconds - degrees * 3600 - minutes * 60 };
+};
+
+const splitDDM = (value: number, minuteDecimals: number) => {
+  const scale = 10 ** minuteDecimals;
+  const totalMinutes = Math.round(Math.abs(value) * 60 * scale) / scale;
+  const degrees = Math.floor(totalMinutes / 60);
+  return { degrees, minutes: totalMinutes - degrees * 60 };
+};
+
+export const formatAngle = (value: number, type: 'lat' | 'lng', format: 'dd' | 'dms' | 'ddm'): string => {
+  const direction = hemisphereLetter(value, type);
+  if (format === 'dms') {
+    const { degrees, minutes, seconds } = splitDMS(value, 1);
+    return `${degrees}°${String(minutes).padStart(2, '0')}′${seconds.toFixed(1).padStart(4, '0')}″${direction}`;
+  }
+  if (format === 'ddm') {
+    const { degrees, minutes } = splitDDM(value, 3);
+    return `${degrees}°${minutes.toFixed(3).padStart(6, '0')}′${direction}`;
+  }
+  return `${Math.abs(value).toFixed(6)}°${direction}`;
+};
+
+// Standard 6° zones plus the Norway (32V) and Svalbard (31X–37X) exceptions.
+export const getUTMZone = (lat: number, lng: number) => {
+  const normalized = ((lng + 180) % 360 + 360) % 360 - 180;
+  if (lat >= 56 && lat < 64 && normalized >= 3 && normalized < 12) return 32;
+  if (lat >= 72 && lat <= 84 && normalized >= 0 && normalized < 42) {
+    if (normalized < 9) return 31;
+    if (normalized < 21) return 33;
+    if (normalized < 33) return 35;
+    return 37;
+  }
+  return Math.min(Math.floor((normalized + 180) / 6) + 1, 60);
+};
+
+// Band X covers 72°–84°, 12° instead of 8°.
+export const getUTMBand = (lat: number) =>
+  UTM_BANDS[Math.min(Math.floor((lat - UTM_MIN_LAT) / 8), UTM_BANDS.length - 1)];
+
+// Transverse Mercator forward projection (Snyder, Map Projections, §8).
+const projectTransverseMercator = (lat: number, lng: number, centralMeridian: number) => {
+  const phi = toRad(lat);
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const tanPhi = Math.tan(phi);
+  const n = WGS84_A / Math.sqrt(1 - E2 * sinPhi * sinPhi);
+  const t = tanPhi * tanPhi;
+  const c = EP2 * cosPhi * cosPhi;
+  const a = cosPhi * toRad(lng - centralMeridian);
+  const e4 = E2 * E2;
+  const e6 = e4 * E2;
+  const m = WGS84_A * (
+    (1 - E2 / 4 - 3 * e4 / 64 - 5 * e6 / 256) * phi
+    - (3 * E2 / 8 + 3 * e4 / 32 + 45 * e6 / 1024) * Math.sin(2 * phi)
+    + (15 * e4 / 256 + 45 * e6 / 1024) * Math.sin(4 * phi)
+    - (35 * e6 / 3072) * Math.sin(6 * phi)
+  );
+  const x = K0 * n * (a + (1 - t + c) * a ** 3 / 6 + (5 - 18 * t + t * t + 72 * c - 58 * EP2) * a ** 5 / 120);
+  const y = K0 * (m + n * tanPhi * (a * a / 2 + (5 - t + 9 * c + 4 * c * c) * a ** 4 / 24 + (61 - 58 * t + t * t + 600 * c - 330 * EP2) * a ** 6 / 720));
+  return { x, y };
+};
+
+export const toUTM = (lat: number, lng: number): UTMCoordinate | null => {
+  if (lat < UTM_MIN_LAT || lat > UTM_MAX_LAT) return null;
+  const zone = getUTMZone(lat, lng);
+  const { x, y } = projectTransverseMercator(lat, lng, zone * 6 - 183);
+  return {
+    zone,
+    band: getUTMBand(lat),
+    hemisphere: lat >= 0 ? 'N' : 'S',
+    easting: x + FALSE_EASTING,
+    northing: lat >= 0 ? y : y + FALSE_NORTHING_SOUTH,
+  };
+};
+
+// 100 km square letters (AA scheme). Column letters repeat every three
+// zones; row letters every two zones, with even zones offset by five.
+const MGRS_COLUMN_SETS = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ'];
+const MGRS_ROW_LETTERS = 'ABCDEFGHJKLMNPQRSTUV';
+
+export const getMGRSSquare = (zone: number, easting: number, northing: number) => {
+  const columns = MGRS_COLUMN_SETS[(zone - 1) % 3];
+  const column = columns[Math.floor(easting / 100_000) - 1];
+  const row = MGRS_ROW_LETTERS[(Math.floor(northing / 100_000) + (zone % 2 === 0 ? 5 : 0)) % MGRS_ROW_LETTERS.length];
+  return `${column}${row}`;
+};
+
+export const formatUTM = (utm: UTMCoordinate) =>
+  `${utm.zone}${utm.band} ${Math.floor(utm.easting)}E ${Math.floor(utm.northing)}N`;
+
+// MGRS references truncate rather than round, so a 5-digit reference names
+// the 1 m square the position lies in.
+export const formatMGRS = (utm: UTMCoordinate, digits = 5) => {
+  const divisor = 10 ** (5 - digits);
+  const part = (value: number) => String(Math.floor((value % 100_000) / divisor)).padStart(digits, '0');
+  return `${utm.zone}${utm.band} ${getMGRSSquare(utm.zone, utm.easting, utm.northing)} ${part(utm.easting)} ${part(utm.northing)}`;
+};
+
+export type FormattedCoordinate = { label: string; value: string };
+
+// One entry per display row: LAT/LNG for angular formats, a single grid
+// reference otherwise.
+export const formatCoordinateRows = (lat: number, lng: number, format: CoordinateFormat): FormattedCoordinate[] => {
+  if (format === 'utm' || format === 'mgrs') {
+    const utm = toUTM(lat, lng);
+    if (utm) return [{ label: format.toUpperCase(), value: format === 'utm' ? formatUTM(utm) : formatMGRS(utm) }];
+  }
+  const angular = format === 'dms' || format === 'ddm' ? format : 'dd';
+  return [
+    { label: 'LAT', value: formatAngle(lat, 'lat', angular) },
+    { label: 'LNG', value: formatAngle(lng, 'lng', angular) },
+  ];
+};
+
+export const formatPosition = (lat: number, lng: number, format: CoordinateFormat) =>
+  formatCoordinateRows(lat, lng, format).map(row => row.value).join(' ');
+
+// Transverse Mercator inverse (Snyder, §8) back to WGS84 lat/lng.
+export const fromUTM = (zone: number, hemisphere: 'N' | 'S', easting: number, northing: number): { lat: number; lng: number } => {
+  const e4 = E2 * E2;
+  const e6 = e4 * E2;
+  const e1 = (1 - Math.sqrt(1 - E2)) / (1 + Math.sqrt(1 - E2));
+  const m = (hemisphere === 'S' ? northing - FALSE_NORTHING_SOUTH : northing) / K0;
+  const mu = m / (WGS84_A * (1 - E2 / 4 - 3 * e4 / 64 - 5 * e6 / 256));
+  const phi1 = mu
+    + (3 * e1 / 2 - 27 * e1 ** 3 / 32) * Math.sin(2 * mu)
+    + (21 * e1 ** 2 / 16 - 55 * e1 ** 4 / 32) * Math.sin(4 * mu)
+    + (151 * e1 ** 3 / 96) * Math.sin(6 * mu)
+    + (1097 * e1 ** 4 / 512) * Math.sin(8 * mu);
+  const sinPhi1 = Math.sin(phi1);
+  const cosPhi1 = Math.cos(phi1);
+  const tanPhi1 = Math.tan(phi1);
+  const c1 = EP2 * cosPhi1 * cosPhi1;
+  const t1 = tanPhi1 * tanPhi1;
+  const n1 = WGS84_A / Math.sqrt(1 - E2 * sinPhi1 * sinPhi1);
+  const r1 = WGS84_A * (1 - E2) / (1 - E2 * sinPhi1 * sinPhi1) ** 1.5;
+  const d = (easting - FALSE_EASTING) / (n1 * K0);
+  const lat = phi1 - (n1 * tanPhi1 / r1) * (
+    d * d / 2
+    - (5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * EP2) * d ** 4 / 24
+    + (61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * EP2 - 3 * c1 * c1) * d ** 6 / 720
+  );
+  const lng = (d - (1 + 2 * t1 + c1) * d ** 3 / 6 + (5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * EP2 + 24 * t1 * t1) * d ** 5 / 120) / cosPhi1;
+  return { lat: lat * 180 / Math.PI, lng: zone * 6 - 183 + lng * 180 / Math.PI };
+};
+
+// Resolves an MGRS reference to the centre of the square it names. Row
+// letters repeat every 2,000 km, so the band picks which cycle is meant.
+export const fromMGRS = (zone: number, band: string, square: string, eastingDigits: string, northingDigits: string): { lat: number; lng: number } | null => {
+  const bandIndex = UTM_BANDS.indexOf(band.toUpperCase());
+  const column = MGRS_COLUMN_SETS[(zone - 1) % 3].indexOf(square[0].toUpperCase()) + 1;
+  const row = MGRS_ROW_LETTERS.indexOf(square[1].toUpperCase());
+  if (zone < 1 || zone > 60 || bandIndex === -1 || column === 0 || row === -1 || eastingDigits.length !== northingDigits.length) return null;
+
+  const digits = eastingDigits.length;
+  const cellSize = 10 ** (5 - digits);
+  const offset = (value: string) => (digits > 0 ? Number(value) * cellSize : 0) + cellSize / 2;
+  const easting = column * 100_000 + offset(eastingDigits);
+  const rowNorthing = ((row - (zone % 2 === 0 ? 5 : 0) + MGRS_ROW_LETTERS.length) % MGRS_ROW_LETTERS.length) * 100_000;
+
+  const bandSouth = UTM_MIN_LAT + bandIndex * 8;
+  const hemisphere = bandSouth >= 0 ? 'N' : 'S';
+  const bandSouthNorthing = projectTransverseMercator(bandSouth, 0, 0).y + (hemisphere === 'S' ? FALSE_NORTHING_SOUTH : 0);
+  let northing = rowNorthing + offset(northingDigits);
+  while (northing < Math.floor(bandSouthNorthing / 100_000) * 100_000) northing += 2_000_000;
+
+  const point = fromUTM(zone, hemisphere, easting, northing);
+  const bandNorth = bandSouth + (band.toUpperCase() === 'X' ? 12 : 8);
+  // A square letter pair that doesn't exist in this band lands outside it.
+  return point.lat >= bandSouth - 0.5 && point.lat <= bandNorth + 0.5 ? point : null;
+};
+
+// Angle from true north to UTM grid north at a point, degrees, positive
+// when grid north lies east of true north. Grid bearing = true − convergence.
+export const getGridConvergence = (lat: number, lng: number): number | null => {
+  if (lat < UTM_MIN_LAT || lat > UTM_MAX_LAT) return null;
+  const deltaLng = toRad(lng - (getUTMZone(lat, lng) * 6 - 183));
+  return Math.atan(Math.tan(deltaLng) * Math.sin(toRad(lat))) * 180 / Math.PI;
+};
@@ -0,0 +1,237 @@
+import { fromMGRS, fromUTM, UTM_BANDS } from '@/lib/coordinate-formats';
+import { decodeGeohash, decodeMaidenhead, decodePlusCode, recoverPlusCode } from '@/lib/location-codes';
+
+// Free-text coordinate entry. Every format that can read the input offers a
+// candidate; more than one candidate means the input is ambiguous and the
+// user has to pick. All formats here are WGS84, so candidates only need
+// their longitude wrapped into [-180, 180).
+
+export type ParsedFormat = 'dd' | 'ddm' | 'dms' | 'utm' | 'mgrs' | 'pluscode' | 'geohash' | 'maidenhead' | 'geo-uri';
+
+export const PARSED_FORMAT_LABELS: Record<ParsedFormat, string> = {
+  dd: 'Decimal degrees',
+  ddm: 'Degrees decimal minutes',
+  dms: 'Degrees minutes seconds',
+  utm: 'UTM',
+  mgrs: 'MGRS',
+  pluscode: 'Plus Code',
+  geohash: 'Geohash',
+  maidenhead: 'Maidenhead locator',
+  'geo-uri': 'geo: URI',
+};
+
+export type ParsedCoordinate = {
+  lat: number;
+  lng: number;
+  format: ParsedFormat;
+  name?: string;
+  note?: string; // how the input was read, when that involved a choice
+};
+
+export type CoordinateParseResult = { candidates: ParsedCoordinate[]; error: string | null };
+
+type Reference = { lat: number; lng: number } | null;
+
+// null: not this format. string: looks like this format but is invalid.
+type FormatParser = (input: string, reference: Reference) => ParsedCoordinate[] | string | null;
+
+const normalizeLng = (lng: number) => ((lng + 180) % 360 + 360) % 360 - 180;
+
+const candidate = (lat: number, lng: number, format: ParsedFormat, extra: Partial<ParsedCoordinate> = {}): ParsedCoordinate =>
+  ({ lat, lng: normalizeLng(lng), format, ...extra });
+
+const inRange = (lat: number, lng: number) => Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+// --- geo: URIs (RFC 5870, plus the Android `geo:0,0?q=lat,lng(label)` form) ---
+
+const parseGeoURI: FormatParser = input => {
+  const match = input.match(/^geo:\s*([-+]?\d+(?:\.\d+)?)\s*,\s*([-+]?\d+(?:\.\d+)?)(?:\s*,\s*[-+]?\d+(?:\.\d+)?)?([^?]*)(?:\?(.*))?$/i);
+  if (!/^geo:/i.test(input)) return null;
+  if (!match) return "Malformed geo: URI";
+  const [, latText, lngText, params = '', query = ''] = match;
+  const crs = params.match(/;crs=([^;]+)/i)?.[1];
+  if (crs && crs.toLowerCase() !== 'wgs84') return `geo: URI uses unsupported CRS "${crs}"`;
+
+  let lat = Number(latText);
+  let lng = Number(lngText);
+  let name: string | undefined;
+  const q = new URLSearchParams(query).get('q');
+  const queryPoint = q?.match(/^\s*([-+]?\d+(?:\.\d+)?)\s*,\s*([-+]?\d+(?:\.\d+)?)\s*(?:\((.*)\))?\s*$/);
+  if (queryPoint && lat === 0 && lng === 0) {
+    lat = Number(queryPoint[1]);
+    lng = Number(queryPoint[2]);
+    name = queryPoint[3]?.trim() || undefined;
+  }
+  if (!inRange(lat, lng)) return "geo: URI coordinates are out of range";
+  return [candidate(lat, lng, 'geo-uri', { name })];
+};
+
+// --- Plus Codes ---
+
+const parsePlusCode: FormatParser = (input, reference) => {
+  if (!input.includes('+')) return null;
+  const code = input.replace(/\s+/g, '');
+  if (!/^[23456789CFGHJMPQRVWX0]+\+[23456789CFGHJMPQRVWX]*$/i.test(code)) return null;
+  const full = decodePlusCode(code);
+  if (full) return [candidate(full.lat, full.lng, 'pluscode')];
+  if (code.indexOf('+') === 8) return "Invalid Plus Code";
+  if (!reference) return "Short Plus Code needs a position fix to resolve";
+  const recovered = recoverPlusCode(code, reference);
+  if (!recovered) return "Invalid Plus Code";
+  return [candidate(recovered.lat, recovered.lng, 'pluscode', { note: 'Short code resolved near your position' })];
+};
+
+// --- MGRS and UTM ---
+
+const parseMGRS: FormatParser = input => {
+  const match = input.replace(/\s+/g, ' ').trim().match(/^(\d{1,2})\s?([C-HJ-NP-X])\s?([A-HJ-NP-Z]{2})\s?(\d{0,10})(?:\s(\d{1,5}))?$/i);
+  if (!match) return null;
+  const [, zoneText, band, square, first, second] = match;
+  let easting = first;
+  let northing = second ?? '';
+  if (second === undefined) {
+    if (first.length % 2 === 1) return "MGRS easting and northing need the same number of digits";
+    easting = first.slice(0, first.length / 2);
+    northing = first.slice(first.length / 2);
+  }
+  if (easting.length !== northing.length || easting.length > 5) return "MGRS easting and northing need the same number of digits";
+  const point = fromMGRS(Number(zoneText), band, square, easting, northing);
+  if (!point) return `MGRS square ${square.toUpperCase()} doesn't exist in ${zoneText}${band.toUpperCase()}`;
+  return [candidate(point.lat, point.lng, 'mgrs')];
+};
+
+const parseUTM: FormatParser = input => {
+  const match = input.trim().match(/^(\d{1,2})\s*([A-Z])?\s+(\d{5,7}(?:\.\d+)?)\s*(?:m\s*)?E?\s*[,\s]\s*(\d{1,8}(?:\.\d+)?)\s*(?:m\s*)?N?$/i);
+  if (!match) return null;
+  const [, zoneText, letterText, eastingText, northingText] = match;
+  const zone = Number(zoneText);
+  const easting = Number(eastingText);
+  const northing = Number(northingText);
+  if (zone < 1 || zone > 60) return `UTM zone ${zone} doesn't exist`;
+  if (easting < 100_000 || easting > 900_000 || northing > 10_000_000) return "UTM easting or northing is out of range";
+
+  const letter = letterText?.toUpperCase();
+  if (letter && !UTM_BANDS.includes(letter)) return `"${letter}" is not a UTM band or hemisphere`;
+  const read = (hemisphere: 'N' | 'S', note?: string) => {
+    const { lat, lng } = fromUTM(zone, hemisphere, easting, northing);
+    return candidate(lat, lng, 'utm', { note });
+  };
+  // Without a letter, or with "S" (band S is northern), the hemisphere is a guess.
+  if (!letter) return [read('N', 'No band given, read as northern hemisphere'), read('S', 'No band given, read as southern hemisphere')];
+  if (letter === 'S') return [read('N', 'S read as latitude band (northern)'), read('S', 'S read as southern hemisphere')];
+  return [read(letter >= 'N' ? 'N' : 'S')];
+};
+
+// --- Geohash and Maidenhead (single compact tokens) ---
+
+const parseGeohash: FormatParser = input => {
+  const token = input.trim();
+  if (!/^[0-9bcdefghjkmnpqrstuvwxyz]{2,12}$/i.test(token) || !/[a-z]/i.test(token)) return null;
+  const decoded = decodeGeohash(token);
+  return decoded ? [candidate(decoded.lat, decoded.lng, 'geohash')] : null;
+};
+
+const parseMaidenhead: FormatParser = input => {
+  const decoded = decodeMaidenhead(input);
+  return decoded ? [candidate(decoded.lat, decoded.lng, 'maidenhead')] : null;
+};
+
+// --- Angular: DD, DDM, DMS with any separators and symbols ---
+
+type Hemisphere = 'N' | 'S' | 'E' | 'W';
+type AngleGroup = { numbers: string[]; hemisphere: Hemisphere | null };
+
+const tokenizeAngles = (input: string): AngleGroup[] | string | null => {
+  const text = input.toUpperCase().replace(/[°º˚′'’‘″"”“]/g, ' ');
+  if (/[A-DF-MO-RT-VX-Z]/.test(text)) return null;
+  const tokens = text.match(/[NSEW]|[-+]?\d+(?:\.\d+)?|[,;]/g);
+  if (!tokens || !tokens.some(t => /\d/.test(t))) return null;
+
+  const prefixMode = /^[NSEW]$/.test(tokens[0]);
+  const groups: AngleGroup[] = [];
+  let current: AngleGroup = { numbers: [], hemisphere: null };
+  const close = () => {
+    if (current.numbers.length > 0 || current.hemisphere) groups.push(current);
+    current = { numbers: [], hemisphere: null };
+  };
+  for (const token of tokens) {
+    if (token === ',' || token === ';') {
+      close();
+    } else if (/^[NSEW]$/.test(token)) {
+      if (prefixMode) { close(); current.hemisphere = token as Hemisphere; }
+      else { current.hemisphere = token as Hemisphere; close(); }
+    } else {
+      current.numbers.push(token);
+    }
+  }
+  close();
+
+  // "48 51 30 2 17 40" has no separator; split evenly when that's unambiguous.
+  if (groups.length === 1 && !groups[0].hemisphere) {
+    const { numbers } = groups[0];
+    if (numbers.length % 2 === 1) return "Can't tell where latitude ends; separate with a comma or add N/S/E/W";
+    const half = numbers.length / 2;
+    return [{ numbers: numbers.slice(0, half), hemisphere: null }, { numbers: numbers.slice(half), hemisphere: null }];
+  }
+  return groups;
+};
+
+const groupToDegrees = ({ numbers, hemisphere }: AngleGroup): number | string => {
+  if (numbers.length === 0 || numbers.length > 3) return "Each value needs degrees, optionally minutes and seconds";
+  const [deg, min, sec] = numbers.map(Number);
+  const negative = numbers[0].startsWith('-') || hemisphere === 'S' || hemisphere === 'W';
+  if (numbers.slice(1).some(n => /^[-+]/.test(n))) return "Only degrees may carry a sign";
+  if (numbers.length > 1 && !Number.isInteger(deg)) return "Degrees must be whole when minutes follow";
+  if (min !== undefined && min >= 60) return "Minutes must be below 60";
+  if (numbers.length > 2 && !Number.isInteger(min)) return "Minutes must be whole when seconds follow";
+  if (sec !== undefined && sec >= 60) return "Seconds must be below 60";
+  const value = Math.abs(deg) + (min ?? 0) / 60 + (sec ?? 0) / 3600;
+  return negative ? -value : value;
+};
+
+const ANGLE_FORMATS: ParsedFormat[] = ['dd', 'ddm', 'dms'];
+
+const parseAngles: FormatParser = input => {
+  const groups = tokenizeAngles(input);
+  if (groups === null || typeof groups === 'string') return groups;
+  if (groups.length !== 2) return "Enter exactly two values: latitude and longitude";
+
+  const values = groups.map(groupToDegrees);
+  const invalid = values.find(v => typeof v === 'string');
+  if (typeof invalid === 'string') return invalid;
+  const [first, second] = values as number[];
+  const isLatitude = (h: Hemisphere | null) => h === 'N' || h === 'S';
+  const isLongitude = (h: Hemisphere | null) => h === 'E' || h === 'W';
+  const [a, b] = groups.map(g => g.hemisphere);
+  if ((isLatitude(a) && isLatitude(b)) || (isLongitude(a) && isLongitude(b))) return "Both values use the same axis (N/S or E/W)";
+
+  const format = ANGLE_FORMATS[Math.max(groups[0].numbers.length, groups[1].numbers.length) - 1];
+  const swapped = isLongitude(a) || isLatitude(b);
+  if (swapped) {
+    if (!inRange(second, first)) return "Latitude or longitude is out of range";
+    return [candidate(second, first, format)];
+  }
+  if (!a && !b && Math.abs(first) > 90 && Math.abs(second) <= 90) {
+    if (!inRange(second, first)) return "Latitude or longitude is out of range";
+    return [candidate(second, first, format, { note: 'First value is beyond ±90°, read as longitude, latitude' })];
+  }
+  if (!inRange(first, second)) return "Latitude or longitude is out of range";
+  return [candidate(first, second, format)];
+};
+
+// Ordered most to least specific; the first error wins when nothing parses.
+const PARSERS: FormatParser[] = [parseGeoURI, parsePlusCode, parseMGRS, parseUTM, parseGeohash, parseMaidenhead, parseAngles];
+
+export const parseCoordinateInput = (input: string, reference: Reference = null): CoordinateParseResult => {
+  const text = input.trim();
+  if (!text) return { candidates: [], error: null };
+  const candidates: ParsedCoordinate[] = [];
+  let error: string | null = null;
+  for (const parser of PARSERS) {
+    const result = parser(text, reference);
+    if (typeof result === 'string') error ??= result;
+    else if (result) candidates.push(...result);
+  }
+  if (candidates.length > 0) return { candidates, error: null };
+  return { candidates, error: error ?? "Unrecognised coordinate format" };
+};
@@ -0,0 +1,203 @@
+import { calculateTotalDistance, getDistance, splitSegments, type GeoPoint } from '@/lib/geo';
+import { escapeXml, generateGPX, type GPXOptions, type GPXWaypoint } from '@/lib/gpx';
+
+// --- Types ---
+export type ExportFormat = 'gpx' | 'kml' | 'geojson' | 'csv' | 'tcx';
+
+export type ExportOptions = GPXOptions;
+
+export type TrackExporter = {
+  id: ExportFormat;
+  label: string;
+  description: string;
+  extension: string;
+  mimeType: string;
+  generate: (points: GeoPoint[], options: ExportOptions) => string;
+};
+
+const TRACK_COLOR = '#22c55e';
+
+const isoTime = (timestamp: number) => new Date(timestamp).toISOString();
+
+const defaultName = () => `Mission Log ${new Date().toISOString()}`;
+
+// Waypoints and geofence events share the GPX waypoint shape; each format
+// carries them in its own way.
+const waypointLabel = (w: GPXWaypoint) => w.description ? `${w.name}: ${w.description}` : w.name;
+
+// --- KML ---
+// KML colours are aabbggrr.
+const toKmlColor = (hex: string, alpha = 'ff') => `${alpha}${hex.slice(5, 7)}${hex.slice(3, 5)}${hex.slice(1, 3)}`;
+
+const kmlWaypoint = (w: GPXWaypoint) => `
+    <Placemark>
+      <name>${escapeXml(w.name)}</name>${w.description ? `
+      <description>${escapeXml(w.description)}</description>` : ''}
+      <TimeStamp><when>${isoTime(w.timestamp)}</when></TimeStamp>${w.type ? `
+      <ExtendedData><Data name="type"><value>${escapeXml(w.type)}</value></Data></ExtendedData>` : ''}
+      <Point><coordinates>${w.lng},${w.lat},${w.alt ?? 0}</coordinates></Point>
+    </Placemark>`;
+
+const generateKML = (points: GeoPoint[], { name = defaultName(), waypoints = [] }: ExportOptions) => {
+  const segments = splitSegments(points);
+  const lineStrings = segments.map(segment => `
+          <LineString>
+            <tessellate>1</tessellate>
+            <altitudeMode>clampToGround</altitudeMode>
+            <coordinates>${segment.map(p => `${p.lng},${p.lat},${p.alt ?? 0}`).join(' ')}</coordinates>
+          </LineString>`).join('');
+  const tracks = segments.map(segment => `
+          <gx:Track>
+            ${segment.map(p => `<when>${isoTime(p.timestamp)}</when>`).join('')}
+            ${segment.map(p => `<gx:coord>${p.lng} ${p.lat} ${p.alt ?? 0}</gx:coord>`).join('')}
+          </gx:Track>`).join('');
+  const timeSpan = points.length > 0
+    ? `<TimeSpan><begin>${isoTime(points[0].timestamp)}</begin><end>${isoTime(points[points.length - 1].timestamp)}</end></TimeSpan>`
+    : '';
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">
+  <Document>
+    <name>${escapeXml(name)}</name>
+    <Style id="track">
+      <LineStyle><color>${toKmlColor(TRACK_COLOR)}</color><width>4</width></LineStyle>
+      <IconStyle><scale>0.5</scale></IconStyle>
+    </Style>
+    <Placemark>
+      <name>${escapeXml(name)}</name>
+      ${timeSpan}
+      <styleUrl>#track</styleUrl>
+      <MultiGeometry>${lineStrings}
+      </MultiGeometry>
+    </Placemark>
+    <Placemark>
+      <name>${escapeXml(name)} (timed)</name>
+      <visibility>0</visibility>
+      <styleUrl>#track</styleUrl>
+      <gx:MultiTrack>
+        <gx:interpolate>0</gx:interpolate>${tracks}
+      </gx:MultiTrack>
+    </Placemark>${waypoints.map(kmlWaypoint).join('')}
+  </Document>
+</kml>`;
+};
+
+// --- GeoJSON ---
+// Per-vertex times follow the `coordinateProperties.times` convention used by togeojson.
+const generateGeoJSON = (points: GeoPoint[], { name = defaultName(), waypoints = [] }: ExportOptions) => {
+  const segments = splitSegments(points);
+  const collection = {
+    type: 'FeatureCollection',
+    features: [{
+      type: 'Feature',
+      properties: {
+        name,
+        startTime: points.length > 0 ? isoTime(points[0].timestamp) : null,
+        endTime: points.length > 0 ? isoTime(points[points.length - 1].timestamp) : null,
+        distance: Math.round(calculateTotalDistance(points) * 10) / 10,
+        stroke: TRACK_COLOR,
+        coordinateProperties: {
+          times: segments.map(segment => segment.map(p => isoTime(p.timestamp))),
+          speed: segments.map(segment => segment.map(p => p.sensors?.speed ?? null)),
+          accuracy: segments.map(segment => segment.map(p => p.sensors?.accuracy ?? null)),
+        },
+      },
+      geometry: {
+        type: 'MultiLineString',
+        coordinates: segments.map(segment => segment.map(p => p.alt !== null ? [p.lng, p.lat, p.alt] : [p.lng, p.lat])),
+      },
+    }, ...waypoints.map(w => ({
+      type: 'Feature',
+      properties: {
+        name: w.name,
+        description: w.description ?? null,
+        time: isoTime(w.timestamp),
+        symbol: w.symbol ?? null,
+        type: w.type ?? null,
+      },
+      geometry: {
+        type: 'Point',
+        coordinates: w.alt !== null ? [w.lng, w.lat, w.alt] : [w.lng, w.lat],
+      },
+    }))],
+  };
+  return JSON.stringify(collection, null, 2);
+};
+
+// --- CSV ---
+const CSV_COLUMNS = ['time', 'segment', 'latitude', 'longitude', 'altitude_m', 'speed_ms', 'course_deg', 'accuracy_m', 'mag_heading_deg', 'pitch_deg', 'roll_deg'];
+
+const csvValue = (value: number | null | undefined) => value === null || value === undefined ? '' : `${value}`;
+
+const generateCSV = (points: GeoPoint[]) => {
+  const rows = points.map(p => [
+    isoTime(p.timestamp),
+    csvValue(p.segment ?? 0),
+    csvValue(p.lat),
+    csvValue(p.lng),
+    csvValue(p.alt),
+    csvValue(p.sensors?.speed),
+    csvValue(p.sensors?.course),
+    csvValue(p.sensors?.accuracy),
+    csvValue(p.sensors?.magHeading),
+    csvValue(p.sensors?.pitch),
+    csvValue(p.sensors?.roll),
+  ].join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+};
+
+// --- TCX ---
+// One Lap holding one <Track> per segment; DistanceMeters is cumulative and
+// skips the gaps between segments. TCX activities have no waypoints, so they
+// are listed in the activity <Notes>.
+const generateTCX = (points: GeoPoint[], { waypoints = [] }: ExportOptions) => {
+  const start = points[0]?.timestamp ?? Date.now();
+  const end = points[points.length - 1]?.timestamp ?? start;
+  let cumulative = 0;
+  const tracks = splitSegments(points).map(segment => `
+        <Track>${segment.map((p, i) => {
+          if (i > 0) cumulative += getDistance(segment[i - 1].lat, segment[i - 1].lng, p.lat, p.lng);
+          const speed = p.sensors?.speed;
+          return `
+          <Trackpoint>
+            <Time>${isoTime(p.timestamp)}</Time>
+            <Position><LatitudeDegrees>${p.lat}</LatitudeDegrees><LongitudeDegrees>${p.lng}</LongitudeDegrees></Position>${p.alt !== null ? `
+            <AltitudeMeters>${p.alt.toFixed(2)}</AltitudeMeters>` : ''}
+            <DistanceMeters>${cumulative.toFixed(2)}</DistanceMeters>${speed !== null && speed !== undefined ? `
+            <Extensions><ns3:TPX><ns3:Speed>${speed.toFixed(2)}</ns3:Speed></ns3:TPX></Extensions>` : ''}
+          </Trackpoint>`;
+        }).join('')}
+        </Track>`).join('');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2" xmlns:ns3="http://www.garmin.com/xmlschemas/ActivityExtension/v2">
+  <Activities>
+    <Activity Sport="Other">
+      <Id>${isoTime(start)}</Id>
+      <Lap StartTime="${isoTime(start)}">
+        <TotalTimeSeconds>${((end - start) / 1000).toFixed(1)}</TotalTimeSeconds>
+        <DistanceMeters>${calculateTotalDistance(points).toFixed(2)}</DistanceMeters>
+        <Calories>0</Calories>
+        <Intensity>Active</Intensity>
+        <TriggerMethod>Manual</TriggerMethod>${tracks}
+      </Lap>${waypoints.length > 0 ? `
+      <Notes>${escapeXml(waypoints.map(w => `${isoTime(w.timestamp)} ${waypointLabel(w)} (${w.lat.toFixed(6)}, ${w.lng.toFixed(6)})`).join('\n'))}</Notes>` : ''}
+      <Creator xsi:type="Device_t" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+        <Name>FieldNavApp</Name>
+        <UnitId>0</UnitId>
+        <ProductID>0</ProductID>
+        <Version><VersionMajor>0</VersionMajor><VersionMinor>1</VersionMinor></Version>
+      </Creator>
+    </Activity>
+  </Activities>
+</TrainingCenterDatabase>`;
+};
+
+// --- Registry ---
+export const EXPORTERS: Record<ExportFormat, TrackExporter> = {
+  gpx: { id: 'gpx', label: 'GPX', description: 'GPS Exchange, full sensor data', extension: 'gpx', mimeType: 'application/gpx+xml', generate: generateGPX },
+  kml: { id: 'kml', label: 'KML', description: 'Google Earth, styled & timed', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml', generate: generateKML },
+  geojson: { id: 'geojson', label: 'GeoJSON', description: 'FeatureCollection for GIS', extension: 'geojson', mimeType: 'application/geo+json', generate: generateGeoJSON },
+  csv: { id: 'csv', label: 'CSV', description: 'One row per point', extension: 'csv', mimeType: 'text/csv', generate: generateCSV },
+  tcx: { id: 'tcx', label: 'TCX', description: 'Training Center, fitness apps', extension: 'tcx', mimeType: 'application/vnd.garmin.tcx+xml', generate: generateTCX },
+};
+
+export const EXPORT_FORMATS = Object.values(EXPORTERS);
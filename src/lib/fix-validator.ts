@@ -0,0 +1,92 @@
+import { getDistance, type Coordinates } from '@/lib/geo';
+
+// Rejects GPS fixes that cannot be real: teleports implying impossible speed,
+// sudden accuracy collapses and fixes that are stale or out of order.
+
+const MAX_SPEED = 70; // m/s (~250 km/h)
+const MAX_FIX_AGE = 30_000; // ms
+const ACCURACY_JUMP_FACTOR = 4;
+const ACCURACY_FLOOR = 50; // m; degradation below this is never a "collapse"
+const MAX_CONSECUTIVE_REJECTIONS = 5; // accept anyway, the receiver has genuinely moved on
+
+export type FixRejectionReason = 'invalid' | 'stale' | 'speed' | 'accuracy';
+
+export type FixVerdict = { ok: true } | { ok: false; reason: FixRejectionReason };
+
+export type FixRejectionStats = {
+  count: number;
+  byReason: Record<FixRejectionReason, number>;
+  last: { reason: FixRejectionReason; timestamp: number } | null;
+};
+
+export const FIX_REJECTION_LABELS: Record<FixRejectionReason, string> = {
+  invalid: 'Invalid',
+  stale: 'Stale',
+  speed: 'Teleport',
+  accuracy: 'Acc. drop',
+};
+
+export const EMPTY_REJECTION_STATS: FixRejectionStats = {
+  count: 0,
+  byReason: { invalid: 0, stale: 0, speed: 0, accuracy: 0 },
+  last: null,
+};
+
+export const recordRejection = (stats: FixRejectionStats, reason: FixRejectionReason, timestamp: number): FixRejectionStats => ({
+  count: stats.count + 1,
+  byReason: { ...stats.byReason, [reason]: stats.byReason[reason] + 1 },
+  last: { reason, timestamp },
+});
+
+export type FixValidator = {
+  validate: (coords: Coordinates, timestamp: number) => FixVerdict;
+  reset: () => void;
+};
+
+export const createFixValidator = (): FixValidator => {
+  let last: { coords: Coordinates; timestamp: number } | null = null;
+  let consecutive = 0;
+
+  const reject = (reason: FixRejectionReason): FixVerdict => {
+    consecutive++;
+    return { ok: false, reason };
+  };
+
+  const accept = (coords: Coordinates, timestamp: number): FixVerdict => {
+    last = { coords, timestamp };
+    consecutive = 0;
+    return { ok: true };
+  };
+
+  const validate = (coords: Coordinates, timestamp: number): FixVerdict => {
+    const { latitude, longitude } = coords;
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      return { ok: false, reason: 'invalid' };
+    }
+    if (Date.now() - timestamp > MAX_FIX_AGE) return { ok: false, reason: 'stale' };
+    if (!last) return accept(coords, timestamp);
+    if (timestamp <= last.timestamp) return { ok: false, reason: 'stale' };
+
+    if (consecutive >= MAX_CONSECUTIVE_REJECTIONS) return accept(coords, timestamp);
+
+    const dt = (timestamp - last.timestamp) / 1000;
+    const distance = getDistance(last.coords.latitude, last.coords.longitude, latitude, longitude);
+    const slack = (coords.accuracy ?? 0) + (last.coords.accuracy ?? 0);
+    if (Math.max(distance - slack, 0) / dt > MAX_SPEED) return reject('speed');
+
+    const prevAccuracy = last.coords.accuracy;
+    if (coords.accuracy !== null && prevAccuracy !== null &&
+        coords.accuracy > ACCURACY_FLOOR && coords.accuracy > prevAccuracy * ACCURACY_JUMP_FACTOR) {
+      return reject('accuracy');
+    }
+
+    return accept(coords, timestamp);
+  };
+
+  const reset = () => {
+    last = null;
+    consecutive = 0;
+  };
+
+  return { validate, reset };
+};
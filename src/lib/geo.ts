@@ -0,0 +1,110 @@
+// --- Types ---
+export type Coordinates = {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  altitude: number | null;
+  speed: number | null;
+  heading: number | null;
+};
+
+// Sensor snapshot taken alongside a recorded fix. Angles in degrees, speed in m/s.
+export type PointSensors = {
+  speed: number | null;
+  course: number | null;
+  accuracy: number | null;
+  magHeading: number | null;
+  pitch: number | null;
+  roll: number | null;
+};
+
+// `segment` splits a recording into separate <trkseg>s around pauses; points
+// without it belong to segment 0.
+export type GeoPoint = { lat: number; lng: number; alt: number | null; timestamp: number; segment?: number; sensors?: PointSensors };
+
+export type BoundingBox = { minLat: number; minLng: number; maxLat: number; maxLng: number };
+
+// --- Geodesy ---
+export const EARTH_RADIUS = 6371e3;
+
+export const toRad = (deg: number) => deg * Math.PI / 180;
+export const toDeg = (rad: number) => rad * 180 / Math.PI;
+
+export const getDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
+  const φ1 = toRad(lat1);
+  const φ2 = toRad(lat2);
+  const Δφ = toRad(lat2 - lat1);
+  const Δλ = toRad(lon2 - lon1);
+  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS * c;
+};
+
+export const calculateTotalDistance = (points: GeoPoint[]) => {
+  if (points.length < 2) return 0;
+  let total = 0;
+  for (let i = 0; i < points.length - 1; i++) {
+    if ((points[i].segment ?? 0) !== (points[i+1].segment ?? 0)) continue;
+    total += getDistance(points[i].lat, points[i].lng, points[i+1].lat, points[i+1].lng);
+  }
+  return total;
+};
+
+export const splitSegments = <T extends GeoPoint>(points: T[]): T[][] => {
+  const segments: T[][] = [];
+  points.forEach((p, i) => {
+    if (i === 0 || (p.segment ?? 0) !== (points[i - 1].segment ?? 0)) segments.push([]);
+    segments[segments.length - 1].push(p);
+  });
+  return segments;
+};
+
+export const getBoundingBox = (points: { lat: number; lng: number }[]): BoundingBox | null => {
+  if (points.length === 0) return null;
+  return points.reduce<BoundingBox>((box, p) => ({
+    minLat: Math.min(box.minLat, p.lat),
+    minLng: Math.min(box.minLng, p.lng),
+    maxLat: Math.max(box.maxLat, p.lat),
+    maxLng: Math.max(box.maxLng, p.lng),
+  }), { minLat: Infinity, minLng: Infinity, maxLat: -Infinity, maxLng: -Infinity });
+};
+
+// Initial great-circle bearing from point 1 to point 2, degrees clockwise from true north.
+export const getBearing = (lat1: number, lon1: number, lat2: number, lon2: number) => {
+  const φ1 = toRad(lat1);
+  const φ2 = toRad(lat2);
+  const Δλ = toRad(lon2 - lon1);
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+};
+
+export const getDestination = (lat: number, lon: number, bearing: number, distance: number) => {
+  const δ = distance / EARTH_RADIUS;
+  const θ = toRad(bearing);
+  const φ1 = toRad(lat);
+  const λ1 = toRad(lon);
+  const φ2 = Math.asin(Math.sin(φ1) * Math.cos(δ) + Math.cos(φ1) * Math.sin(δ) * Math.cos(θ));
+  const λ2 = λ1 + Math.atan2(Math.sin(θ) * Math.sin(δ) * Math.cos(φ1), Math.cos(δ) - Math.sin(φ1) * Math.sin(φ2));
+  return { lat: toDeg(φ2), lng: ((toDeg(λ2) + 540) % 360) - 180 };
+};
+
+// Signed distance (m) of `point` from the great circle start→end; positive
+// when the point lies to the right of the course.
+export const getCrossTrackDistance = (start: { lat: number; lng: number }, end: { lat: number; lng: number }, point: { lat: number; lng: number }) => {
+  const δ13 = getDistance(start.lat, start.lng, point.lat, point.lng) / EARTH_RADIUS;
+  const θ13 = toRad(getBearing(start.lat, start.lng, point.lat, point.lng));
+  const θ12 = toRad(getBearing(start.lat, start.lng, end.lat, end.lng));
+  return Math.asin(Math.sin(δ13) * Math.sin(θ13 - θ12)) * EARTH_RADIUS;
+};
+
+// Distance (m) from start to the foot of the perpendicular from `point` onto
+// the great circle start→end; negative when the point is behind start.
+export const getAlongTrackDistance = (start: { lat: number; lng: number }, end: { lat: number; lng: number }, point: { lat: number; lng: number }) => {
+  const δ13 = getDistance(start.lat, start.lng, point.lat, point.lng) / EARTH_RADIUS;
+  const θ13 = toRad(getBearing(start.lat, start.lng, point.lat, point.lng));
+  const θ12 = toRad(getBearing(start.lat, start.lng, end.lat, end.lng));
+  const δxt = Math.asin(Math.sin(δ13) * Math.sin(θ13 - θ12));
+  const δat = Math.acos(Math.min(1, Math.max(-1, Math.cos(δ13) / Math.cos(δxt))));
+  return δat * Math.sign(Math.cos(θ12 - θ13)) * EARTH_RADIUS;
+};
@@ -0,0 +1,131 @@
+import { getDestination, getDistance } from '@/lib/geo';
+
+// Circular and polygon geofences, evaluated against every accepted fix.
+// A transition needs CONFIRM_FIXES consecutive fixes on the new side so a
+// single noisy fix near the boundary doesn't produce an enter/exit pair.
+
+const CONFIRM_FIXES = 2;
+const CIRCLE_RING_STEPS = 64;
+
+export const DEFAULT_DWELL_TIME = 5 * 60_000; // ms
+
+export type GeofenceShape =
+  | { kind: 'circle'; center: { lat: number; lng: number }; radius: number }
+  | { kind: 'polygon'; vertices: { lat: number; lng: number }[] };
+
+export type Geofence = {
+  id: string;
+  name: string;
+  shape: GeofenceShape;
+  dwellTime: number; // ms inside before a dwell event fires
+  createdAt: number;
+};
+
+export type GeofenceEventKind = 'enter' | 'exit' | 'dwell';
+
+export type GeofenceEvent = {
+  id: string;
+  fenceId: string;
+  fenceName: string;
+  kind: GeofenceEventKind;
+  timestamp: number;
+  lat: number;
+  lng: number;
+};
+
+export const GEOFENCE_EVENT_LABELS: Record<GeofenceEventKind, string> = {
+  enter: 'Entered',
+  exit: 'Left',
+  dwell: 'Dwelling in',
+};
+
+const newId = (timestamp: number) => `${timestamp.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createGeofence = (shape: GeofenceShape, name: string): Geofence => {
+  const createdAt = Date.now();
+  return { id: newId(createdAt), name, shape, dwellTime: DEFAULT_DWELL_TIME, createdAt };
+};
+
+// Ray casting in plain lat/lng; fine for fences that don't straddle the antimeridian.
+const isInsidePolygon = (vertices: { lat: number; lng: number }[], point: { lat: number; lng: number }) => {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    if ((a.lat > point.lat) !== (b.lat > point.lat) && point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const isInsideGeofence = (shape: GeofenceShape, point: { lat: number; lng: number }) =>
+  shape.kind === 'circle'
+    ? getDistance(shape.center.lat, shape.center.lng, point.lat, point.lng) <= shape.radius
+    : shape.vertices.length >= 3 && isInsidePolygon(shape.vertices, point);
+
+// Closed [lng, lat] ring for drawing; circles are approximated.
+export const geofenceRing = (shape: GeofenceShape): number[][] => {
+  const vertices = shape.kind === 'circle'
+    ? Array.from({ length: CIRCLE_RING_STEPS }, (_, i) => getDestination(shape.center.lat, shape.center.lng, (i * 360) / CIRCLE_RING_STEPS, shape.radius))
+    : shape.vertices;
+  const ring = vertices.map(v => [v.lng, v.lat]);
+  return ring.length > 0 ? [...ring, ring[0]] : ring;
+};
+
+type FenceState = { inside: boolean | null; pending: number; since: number; dwelled: boolean };
+
+export const createGeofenceMonitor = () => {
+  const states = new Map<string, FenceState>();
+
+  return {
+    evaluate(fences: Geofence[], point: { lat: number; lng: number }, timestamp: number): GeofenceEvent[] {
+      const events: GeofenceEvent[] = [];
+      const emit = (fence: Geofence, kind: GeofenceEventKind) =>
+        events.push({ id: newId(timestamp), fenceId: fence.id, fenceName: fence.name, kind, timestamp, lat: point.lat, lng: point.lng });
+
+      const live = new Set(fences.map(f => f.id));
+      Array.from(states.keys()).forEach(id => { if (!live.has(id)) states.delete(id); });
+
+      fences.forEach(fence => {
+        const inside = isInsideGeofence(fence.shape, point);
+        const state = states.get(fence.id) ?? { inside: null, pending: 0, since: timestamp, dwelled: false };
+        states.set(fence.id, state);
+
+        if (inside !== state.inside) {
+          state.pending += 1;
+          if (state.pending >= CONFIRM_FIXES) {
+            // A fix that starts outside is just the initial state, not an exit.
+            if (inside) emit(fence, 'enter');
+            else if (state.inside !== null) emit(fence, 'exit');
+            state.inside = inside;
+            state.pending = 0;
+            state.since = timestamp;
+            state.dwelled = false;
+          }
+        } else {
+          state.pending = 0;
+          if (inside && !state.dwelled && timestamp - state.since >= fence.dwellTime) {
+            state.dwelled = true;
+            emit(fence, 'dwell');
+          }
+        }
+      });
+      return events;
+    },
+    isInside(fenceId: string) {
+      return states.get(fenceId)?.inside === true;
+    },
+    reset() {
+      states.clear();
+    },
+  };
+};
+
+const EVENT_CSV_COLUMNS = ['time', 'event', 'fence', 'latitude', 'longitude'];
+
+export const geofenceEventsToCSV = (events: GeofenceEvent[]) => {
+  const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  const rows = events.map(e => [new Date(e.timestamp).toISOString(), e.kind, quote(e.fenceName), e.lat, e.lng].join(','));
+  return [EVENT_CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+};
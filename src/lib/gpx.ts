@@ -0,0 +1,124 @@
+import { getBoundingBox, splitSegments, type GeoPoint, type PointSensors } from '@/lib/geo';
+
+const parseNumber = (value: string | null | undefined): number | null => {
+  if (value === null || value === undefined || value.trim() === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+// Flattens every <trkpt> (falling back to <rtept>) of a GPX document into a
+// single point list, numbering each <trkseg> as its own segment.
+export const parseGPXTrack = (xml: string): GeoPoint[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('Invalid GPX file');
+
+  let nodes = Array.from(doc.getElementsByTagName('trkpt'));
+  if (nodes.length === 0) nodes = Array.from(doc.getElementsByTagName('rtept'));
+
+  const segments = Array.from(doc.getElementsByTagName('trkseg'));
+  const points: GeoPoint[] = [];
+  nodes.forEach((node, i) => {
+    const segment = node.parentElement ? segments.indexOf(node.parentElement) : -1;
+    const lat = parseNumber(node.getAttribute('lat'));
+    const lng = parseNumber(node.getAttribute('lon'));
+    if (lat === null || lng === null) return;
+    const time = node.getElementsByTagName('time')[0]?.textContent;
+    const parsedTime = time ? Date.parse(time) : NaN;
+    points.push({
+      lat,
+      lng,
+      alt: parseNumber(node.getElementsByTagName('ele')[0]?.textContent),
+      timestamp: Number.isFinite(parsedTime) ? parsedTime : i * 1000,
+      ...(segment > 0 ? { segment } : {}),
+    });
+  });
+  return points;
+};
+
+// --- Writer ---
+// Sensor readings go into <extensions>: speed and course use Garmin's
+// TrackPointExtension v2 so common tools pick them up, everything else lives
+// in the FieldNav namespace documented in docs/gpx-extensions.md.
+export const GPX_NS = 'http://www.topografix.com/GPX/1/1';
+export const GARMIN_TPX_NS = 'http://www.garmin.com/xmlschemas/TrackPointExtension/v2';
+export const FIELDNAV_NS = 'https://fieldnav.app/xmlns/gpx/1';
+
+export type GPXDeviceInfo = { userAgent: string; platform: string | null; screen: string | null };
+
+export type GPXWaypoint = {
+  lat: number;
+  lng: number;
+  alt: number | null;
+  timestamp: number;
+  name: string;
+  description?: string;
+  symbol?: string;
+  type?: string;
+};
+
+export type GPXOptions = {
+  name?: string;
+  units?: 'metric' | 'imperial';
+  device?: GPXDeviceInfo | null;
+  waypoints?: GPXWaypoint[];
+};
+
+export const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const fixed = (value: number | null, digits: number) => value === null || !Number.isFinite(value) ? null : value.toFixed(digits);
+
+const tag = (name: string, value: string | null) => value === null ? '' : `<${name}>${value}</${name}>`;
+
+const pointExtensions = (sensors: PointSensors | undefined) => {
+  if (!sensors) return '';
+  const garmin = tag('gpxtpx:speed', fixed(sensors.speed, 2)) + tag('gpxtpx:course', fixed(sensors.course, 1));
+  const fieldnav = tag('fieldnav:hacc', fixed(sensors.accuracy, 1))
+    + tag('fieldnav:magheading', fixed(sensors.magHeading, 1))
+    + tag('fieldnav:pitch', fixed(sensors.pitch, 1))
+    + tag('fieldnav:roll', fixed(sensors.roll, 1));
+  if (!garmin && !fieldnav) return '';
+  return `
+        <extensions>${garmin ? `<gpxtpx:TrackPointExtension>${garmin}</gpxtpx:TrackPointExtension>` : ''}${fieldnav}</extensions>`;
+};
+
+const waypointXml = (w: GPXWaypoint) => `
+  <wpt lat="${w.lat}" lon="${w.lng}">
+    ${w.alt !== null ? `<ele>${w.alt.toFixed(2)}</ele>` : ''}
+    <time>${new Date(w.timestamp).toISOString()}</time>
+    <name>${escapeXml(w.name)}</name>${w.description ? `
+    <desc>${escapeXml(w.description)}</desc>` : ''}${w.symbol ? `
+    <sym>${escapeXml(w.symbol)}</sym>` : ''}${w.type ? `
+    <type>${escapeXml(w.type)}</type>` : ''}
+  </wpt>`;
+
+// GPX 1.1 requires <wpt> before <trk>; the <trk> is left out entirely when
+// there are no points (waypoint-only exports).
+export const generateGPX = (points: GeoPoint[], { name = `Mission Log ${new Date().toISOString()}`, units = 'metric', device = null, waypoints = [] }: GPXOptions = {}) => {
+  const bbox = getBoundingBox([...points, ...waypoints]);
+  const deviceXml = device
+    ? `<fieldnav:device><fieldnav:useragent>${escapeXml(device.userAgent)}</fieldnav:useragent>${tag('fieldnav:platform', device.platform ? escapeXml(device.platform) : null)}${tag('fieldnav:screen', device.screen)}</fieldnav:device>`
+    : '';
+  const header = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="FieldNavApp" xmlns="${GPX_NS}" xmlns:gpxtpx="${GARMIN_TPX_NS}" xmlns:fieldnav="${FIELDNAV_NS}">
+  <metadata>
+    <name>${escapeXml(name)}</name>
+    <time>${new Date().toISOString()}</time>${bbox ? `
+    <bounds minlat="${bbox.minLat}" minlon="${bbox.minLng}" maxlat="${bbox.maxLat}" maxlon="${bbox.maxLng}"/>` : ''}
+    <extensions>${deviceXml}<fieldnav:units>${units}</fieldnav:units></extensions>
+  </metadata>${waypoints.map(waypointXml).join('')}`;
+  if (points.length === 0) return `${header}
+</gpx>`;
+  const body = splitSegments(points).map(segment => `
+    <trkseg>${segment.map(p => `
+      <trkpt lat="${p.lat}" lon="${p.lng}">
+        ${p.alt !== null ? `<ele>${p.alt.toFixed(2)}</ele>` : ''}
+        <time>${new Date(p.timestamp).toISOString()}</time>${pointExtensions(p.sensors)}
+      </trkpt>`).join('')}
+    </trkseg>`).join('');
+  return `${header}
+  <trk>
+    <name>${escapeXml(name)}</name>${body}
+  </trk>
+</gpx>`;
+};
@@ -0,0 +1,121 @@
+import { angleDifference } from '@/lib/compass-health';
+import { toDeg, toRad } from '@/lib/geo';
+
+// Complementary filter over GPS course and magnetic heading. The magnetometer
+// tracks fast turns of the phone; both sources pull the estimate towards
+// their confidence-weighted mean over about a second. GPS course is trusted
+// with speed and horizontal accuracy, the magnetometer with how steady its
+// recent readings are, so the blend shifts smoothly as the user speeds up.
+
+const GPS_SPEED_MIN = 0.5; // m/s, course is noise below this
+const GPS_SPEED_FULL = 2.5; // m/s, course fully trusted from here
+const GPS_ACCURACY_GOOD = 10; // m
+const GPS_ACCURACY_POOR = 50;
+
+const STABILITY_WINDOW = 2_000; // ms
+const STABILITY_SPREAD = 30; // degrees of circular spread at which stability reaches zero
+const UNRELIABLE_WEIGHT = 0.15; // confidence multiplier while the health monitor flags the compass
+
+const TIME_CONSTANT = 1_000; // ms
+const MAX_STEP = 5_000; // ms, longer gaps snap straight to the target
+
+export type HeadingSource = 'GPS' | 'MAG';
+
+export type HeadingFusionInput = {
+  magnetic: number | null; // degrees true
+  magneticReliable: boolean;
+  course: number | null; // degrees true
+  speed: number | null; // m/s
+  accuracy: number | null; // m
+  timestamp: number;
+};
+
+export type FusedHeading = {
+  heading: number | null; // degrees true
+  gpsConfidence: number; // 0–1
+  magneticConfidence: number; // 0–1
+  confidence: number; // 0–1, either source
+  dominant: HeadingSource;
+};
+
+export const EMPTY_FUSED_HEADING: FusedHeading = { heading: null, gpsConfidence: 0, magneticConfidence: 0, confidence: 0, dominant: 'MAG' };
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+const smoothstep = (edge0: number, edge1: number, value: number) => {
+  const t = clamp01((value - edge0) / (edge1 - edge0));
+  return t * t * (3 - 2 * t);
+};
+const normalize = (degrees: number) => (degrees % 360 + 360) % 360;
+
+export const getCourseConfidence = (speed: number | null, accuracy: number | null) => {
+  if (speed === null) return 0;
+  const accuracyFactor = accuracy === null ? 0.5 : clamp01((GPS_ACCURACY_POOR - accuracy) / (GPS_ACCURACY_POOR - GPS_ACCURACY_GOOD));
+  return smoothstep(GPS_SPEED_MIN, GPS_SPEED_FULL, speed) * accuracyFactor;
+};
+
+export const createHeadingFusion = () => {
+  const samples: { timestamp: number; sin: number; cos: number }[] = [];
+  let fused: number | null = null;
+  let lastMagnetic: number | null = null;
+  let lastTimestamp: number | null = null;
+
+  // Circular standard deviation of the recent magnetic samples, mapped to 0–1.
+  const magneticStability = () => {
+    if (samples.length < 2) return 0.5;
+    const sin = samples.reduce((sum, s) => sum + s.sin, 0) / samples.length;
+    const cos = samples.reduce((sum, s) => sum + s.cos, 0) / samples.length;
+    const length = Math.min(Math.hypot(sin, cos), 1);
+    if (length <= 0) return 0;
+    const spread = toDeg(Math.sqrt(-2 * Math.log(length)));
+    return clamp01(1 - spread / STABILITY_SPREAD);
+  };
+
+  return {
+    update({ magnetic, magneticReliable, course, speed, accuracy, timestamp }: HeadingFusionInput): FusedHeading {
+      if (magnetic !== null) {
+        samples.push({ timestamp, sin: Math.sin(toRad(magnetic)), cos: Math.cos(toRad(magnetic)) });
+      }
+      while (samples.length > 0 && timestamp - samples[0].timestamp > STABILITY_WINDOW) samples.shift();
+
+      const gpsConfidence = course !== null ? getCourseConfidence(speed, accuracy) : 0;
+      const magneticConfidence = magnetic !== null ? magneticStability() * (magneticReliable ? 1 : UNRELIABLE_WEIGHT) : 0;
+      const dt = lastTimestamp !== null ? timestamp - lastTimestamp : Infinity;
+      lastTimestamp = timestamp;
+
+      // Predict: carry the estimate through the turn the magnetometer just saw.
+      if (fused !== null && magnetic !== null && lastMagnetic !== null && magneticReliable) {
+        fused = normalize(fused + angleDifference(magnetic, lastMagnetic));
+      }
+      lastMagnetic = magnetic;
+
+      // Correct: ease towards the weighted circular mean of both sources.
+      const total = gpsConfidence + magneticConfidence;
+      if (total > 0) {
+        let sin = 0, cos = 0;
+        if (course !== null) { sin += gpsConfidence * Math.sin(toRad(course)); cos += gpsConfidence * Math.cos(toRad(course)); }
+        if (magnetic !== null) { sin += magneticConfidence * Math.sin(toRad(magnetic)); cos += magneticConfidence * Math.cos(toRad(magnetic)); }
+        const target = normalize(toDeg(Math.atan2(sin, cos)));
+        if (fused === null || dt > MAX_STEP) fused = target;
+        else fused = normalize(fused + angleDifference(target, fused) * (1 - Math.exp(-dt / TIME_CONSTANT)));
+      } else if (fused === null) {
+        fused = magnetic ?? course;
+      }
+
+      return {
+        heading: fused,
+        gpsConfidence,
+        magneticConfidence,
+        confidence: 1 - (1 - gpsConfidence) * (1 - magneticConfidence),
+        dominant: gpsConfidence > magneticConfidence ? 'GPS' : 'MAG',
+      };
+    },
+    reset() {
+      samples.length = 0;
+      fused = null;
+      lastMagnetic = null;
+      lastTimestamp = null;
+    },
+  };
+};
+
+export type HeadingFusion = ReturnType<typeof createHeadingFusion>;
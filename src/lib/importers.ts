@@ -0,0 +1,228 @@
+import { getBoundingBox, type BoundingBox } from '@/lib/geo';
+
+// --- Types ---
+export type ImportedVertex = { lat: number; lng: number; alt: number | null; timestamp: number | null };
+
+export type ImportedLine = { kind: 'track' | 'route'; name: string | null; segments: ImportedVertex[][] };
+
+export type ImportedWaypoint = { name: string | null; description: string | null; lat: number; lng: number; alt: number | null };
+
+export type ImportedDataset = {
+  id: string;
+  name: string;
+  format: ImportFormat;
+  lines: ImportedLine[];
+  waypoints: ImportedWaypoint[];
+  bbox: BoundingBox | null;
+};
+
+export type ImportFormat = 'gpx' | 'kml' | 'geojson';
+
+export const IMPORT_ACCEPT = '.gpx,.kml,.geojson,.json,application/gpx+xml,application/vnd.google-earth.kml+xml,application/geo+json,application/json';
+
+// --- Helpers ---
+const num = (value: string | null | undefined): number | null => {
+  if (value === null || value === undefined || value.trim() === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+const isValidVertex = (v: ImportedVertex) => Math.abs(v.lat) <= 90 && Math.abs(v.lng) <= 180;
+
+// Direct children only, so nested elements (e.g. a <trk>'s <name> vs its points') don't leak.
+const childText = (el: Element, localName: string) => {
+  const child = Array.from(el.children).find(c => c.localName === localName);
+  return child?.textContent?.trim() || null;
+};
+
+const byLocalName = (root: Document | Element, localName: string) =>
+  Array.from(root.getElementsByTagNameNS('*', localName));
+
+const parseXml = (text: string) => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('File is not valid XML');
+  return doc;
+};
+
+const parseTime = (value: string | null) => {
+  if (!value) return null;
+  const t = Date.parse(value);
+  return Number.isFinite(t) ? t : null;
+};
+
+// --- GPX ---
+const gpxVertex = (el: Element): ImportedVertex | null => {
+  const lat = num(el.getAttribute('lat'));
+  const lng = num(el.getAttribute('lon'));
+  if (lat === null || lng === null) return null;
+  return { lat, lng, alt: num(childText(el, 'ele')), timestamp: parseTime(childText(el, 'time')) };
+};
+
+const parseGPX = (text: string) => {
+  const doc = parseXml(text);
+  const vertices = (els: Element[]) => els.map(gpxVertex).filter((v): v is ImportedVertex => v !== null && isValidVertex(v));
+
+  const tracks: ImportedLine[] = byLocalName(doc, 'trk').map(trk => ({
+    kind: 'track',
+    name: childText(trk, 'name'),
+    segments: byLocalName(trk, 'trkseg').map(seg => vertices(byLocalName(seg, 'trkpt'))).filter(seg => seg.length > 0),
+  }));
+  const routes: ImportedLine[] = byLocalName(doc, 'rte').map(rte => ({
+    kind: 'route',
+    name: childText(rte, 'name'),
+    segments: [vertices(byLocalName(rte, 'rtept'))].filter(seg => seg.length > 0),
+  }));
+  const waypoints = byLocalName(doc, 'wpt').flatMap(wpt => {
+    const v = gpxVertex(wpt);
+    return v && isValidVertex(v) ? [{ name: childText(wpt, 'name'), description: childText(wpt, 'desc'), lat: v.lat, lng: v.lng, alt: v.alt }] : [];
+  });
+  return { lines: [...tracks, ...routes].filter(l => l.segments.length > 0), waypoints };
+};
+
+// --- KML ---
+const parseKmlCoordinates = (text: string | null | undefined): ImportedVertex[] =>
+  (text ?? '').trim().split(/\s+/).flatMap(tuple => {
+    const [lng, lat, alt] = tuple.split(',').map(Number);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) return [];
+    const v = { lat, lng, alt: Number.isFinite(alt) ? alt : null, timestamp: null };
+    return isValidVertex(v) ? [v] : [];
+  });
+
+const parseGxTrack = (track: Element): ImportedVertex[] => {
+  const whens = byLocalName(track, 'when').map(w => parseTime(w.textContent));
+  return byLocalName(track, 'coord').flatMap((c, i) => {
+    const [lng, lat, alt] = (c.textContent ?? '').trim().split(/\s+/).map(Number);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) return [];
+    return [{ lat, lng, alt: Number.isFinite(alt) ? alt : null, timestamp: whens[i] ?? null }];
+  });
+};
+
+const parseKML = (text: string) => {
+  const doc = parseXml(text);
+  const lines: ImportedLine[] = [];
+  const waypoints: ImportedWaypoint[] = [];
+
+  byLocalName(doc, 'Placemark').forEach(placemark => {
+    const name = childText(placemark, 'name');
+    const description = childText(placemark, 'description');
+    const segments = [
+      ...byLocalName(placemark, 'LineString').map(ls => parseKmlCoordinates(byLocalName(ls, 'coordinates')[0]?.textContent)),
+      ...byLocalName(placemark, 'LinearRing').map(lr => parseKmlCoordinates(byLocalName(lr, 'coordinates')[0]?.textContent)),
+      ...byLocalName(placemark, 'Track').map(parseGxTrack),
+    ].filter(seg => seg.length > 0);
+    if (segments.length > 0) lines.push({ kind: 'track', name, segments });
+
+    byLocalName(placemark, 'Point').forEach(point => {
+      const [v] = parseKmlCoordinates(byLocalName(point, 'coordinates')[0]?.textContent);
+      if (v) waypoints.push({ name, description, lat: v.lat, lng: v.lng, alt: v.alt });
+    });
+  });
+  return { lines, waypoints };
+};
+
+// --- GeoJSON ---
+// Parsed as `unknown` and narrowed as we go: valid JSON with the wrong shape
+// (e.g. `"coordinates": 5`) is skipped rather than thrown on.
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+const asArray = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const geoJsonVertex = (position: unknown): ImportedVertex | null => {
+  if (!Array.isArray(position)) return null;
+  const [lng, lat, alt] = position;
+  if (!isNumber(lat) || !isNumber(lng)) return null;
+  const v = { lat, lng, alt: isNumber(alt) ? alt : null, timestamp: null };
+  return isValidVertex(v) ? v : null;
+};
+
+const geoJsonLine = (positions: unknown) => asArray(positions).map(geoJsonVertex).filter((v): v is ImportedVertex => v !== null);
+
+const parseGeoJSON = (text: string) => {
+  let root: unknown;
+  try { root = JSON.parse(text); } catch { throw new Error('File is not valid JSON'); }
+  const lines: ImportedLine[] = [];
+  const waypoints: ImportedWaypoint[] = [];
+
+  const visitGeometry = (geometry: unknown, props: unknown) => {
+    if (!isObject(geometry)) return;
+    const name = isObject(props) && typeof props.name === 'string' ? props.name : null;
+    const description = isObject(props) && typeof props.description === 'string' ? props.description : null;
+    const addLine = (segments: ImportedVertex[][]) => {
+      const valid = segments.filter(seg => seg.length > 0);
+      if (valid.length > 0) lines.push({ kind: 'track', name, segments: valid });
+    };
+    const addPoint = (position: unknown) => {
+      const v = geoJsonVertex(position);
+      if (v) waypoints.push({ name, description, lat: v.lat, lng: v.lng, alt: v.alt });
+    };
+    const coordinates = geometry.coordinates;
+    switch (geometry.type) {
+      case 'Point': addPoint(coordinates); break;
+      case 'MultiPoint': asArray(coordinates).forEach(addPoint); break;
+      case 'LineString': addLine([geoJsonLine(coordinates)]); break;
+      case 'MultiLineString': addLine(asArray(coordinates).map(geoJsonLine)); break;
+      case 'Polygon': addLine(asArray(coordinates).map(geoJsonLine)); break;
+      case 'MultiPolygon': addLine(asArray(coordinates).flatMap(poly => asArray(poly).map(geoJsonLine))); break;
+      case 'GeometryCollection': asArray(geometry.geometries).forEach(g => visitGeometry(g, props)); break;
+    }
+  };
+
+  const visit = (node: unknown) => {
+    if (!isObject(node)) return;
+    if (node.type === 'FeatureCollection') asArray(node.features).forEach(visit);
+    else if (node.type === 'Feature') visitGeometry(node.geometry, node.properties);
+    else visitGeometry(node, null);
+  };
+  visit(root);
+  return { lines, waypoints };
+};
+
+// --- Entry point ---
+export const detectImportFormat = (fileName: string, text: string): ImportFormat | null => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'gpx') return 'gpx';
+  if (ext === 'kml') return 'kml';
+  if (ext === 'geojson' || ext === 'json') return 'geojson';
+  const head = text.trimStart().slice(0, 512);
+  if (head.startsWith('{')) return 'geojson';
+  if (/<gpx[\s>]/.test(head)) return 'gpx';
+  if (/<kml[\s>]/.test(head)) return 'kml';
+  return null;
+};
+
+export const parseImportFile = (fileName: string, text: string): ImportedDataset => {
+  const format = detectImportFormat(fileName, text);
+  if (!format) throw new Error('Unsupported file type');
+  const { lines, waypoints } = format === 'gpx' ? parseGPX(text) : format === 'kml' ? parseKML(text) : parseGeoJSON(text);
+  if (lines.length === 0 && waypoints.length === 0) throw new Error('No tracks, routes or waypoints found');
+  const allPoints = [...lines.flatMap(l => l.segments.flat()), ...waypoints];
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: fileName,
+    format,
+    lines,
+    waypoints,
+    bbox: getBoundingBox(allPoints),
+  };
+};
+
+// --- Share target hand-off ---
+// The /share-target route stashes shared files here before redirecting to the app.
+export const SHARED_IMPORT_KEY = 'fieldnav:shared-import';
+
+export type SharedImportPayload = { name: string; text: string }[];
+
+export const takeSharedImports = (): SharedImportPayload => {
+  if (typeof sessionStorage === 'undefined') return [];
+  const raw = sessionStorage.getItem(SHARED_IMPORT_KEY);
+  if (!raw) return [];
+  sessionStorage.removeItem(SHARED_IMPORT_KEY);
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
@@ -0,0 +1,127 @@
+import { EARTH_RADIUS, toDeg, toRad, type Coordinates } from '@/lib/geo';
+
+// Constant-velocity Kalman filter over a local east/north plane (metres).
+// Each axis is filtered independently with state [position, velocity];
+// measurement noise comes from the fix's reported horizontal accuracy.
+
+const DEFAULT_ACCURACY = 30;
+const MIN_ACCURACY = 1;
+const PROCESS_NOISE = 0.5; // m/s² acceleration spectral density
+const MAX_GAP = 60_000; // ms without a fix before the filter re-initialises
+const MAX_REFERENCE_DRIFT = 10_000; // m from the projection origin before re-anchoring
+
+type Axis = { p: number; v: number; p00: number; p01: number; p10: number; p11: number };
+
+type Reference = { lat: number; lng: number; cosLat: number };
+
+export type KalmanFilter = {
+  process: (coords: Coordinates, timestamp: number) => Coordinates;
+  reset: () => void;
+};
+
+const createAxis = (position: number, variance: number): Axis => ({
+  p: position, v: 0, p00: variance, p01: 0, p10: 0, p11: 100,
+});
+
+const predictAxis = (a: Axis, dt: number, q: number) => {
+  const dt2 = dt * dt;
+  const dt3 = dt2 * dt;
+  const dt4 = dt3 * dt;
+  a.p += a.v * dt;
+  const p00 = a.p00 + dt * (a.p10 + a.p01) + dt2 * a.p11 + q * dt4 / 4;
+  const p01 = a.p01 + dt * a.p11 + q * dt3 / 2;
+  const p10 = a.p10 + dt * a.p11 + q * dt3 / 2;
+  const p11 = a.p11 + q * dt2;
+  a.p00 = p00; a.p01 = p01; a.p10 = p10; a.p11 = p11;
+};
+
+const updateAxis = (a: Axis, z: number, r: number) => {
+  const s = a.p00 + r;
+  const k0 = a.p00 / s;
+  const k1 = a.p10 / s;
+  const y = z - a.p;
+  a.p += k0 * y;
+  a.v += k1 * y;
+  const p00 = (1 - k0) * a.p00;
+  const p01 = (1 - k0) * a.p01;
+  const p10 = a.p10 - k1 * a.p00;
+  const p11 = a.p11 - k1 * a.p01;
+  a.p00 = p00; a.p01 = p01; a.p10 = p10; a.p11 = p11;
+};
+
+export const createKalmanFilter = (processNoise: number = PROCESS_NOISE): KalmanFilter => {
+  let ref: Reference | null = null;
+  let east: Axis | null = null;
+  let north: Axis | null = null;
+  let lastTimestamp = 0;
+
+  const project = (lat: number, lng: number, r: Reference) => ({
+    x: toRad(lng - r.lng) * r.cosLat * EARTH_RADIUS,
+    y: toRad(lat - r.lat) * EARTH_RADIUS,
+  });
+
+  const unproject = (x: number, y: number, r: Reference) => ({
+    latitude: r.lat + toDeg(y / EARTH_RADIUS),
+    longitude: r.lng + toDeg(x / (EARTH_RADIUS * r.cosLat)),
+  });
+
+  const init = (coords: Coordinates, timestamp: number, variance: number) => {
+    ref = { lat: coords.latitude, lng: coords.longitude, cosLat: Math.cos(toRad(coords.latitude)) };
+    east = createAxis(0, variance);
+    north = createAxis(0, variance);
+    lastTimestamp = timestamp;
+  };
+
+  const reset = () => {
+    ref = null;
+    east = null;
+    north = null;
+    lastTimestamp = 0;
+  };
+
+  const process = (coords: Coordinates, timestamp: number): Coordinates => {
+    const accuracy = Math.max(coords.accuracy ?? DEFAULT_ACCURACY, MIN_ACCURACY);
+    const variance = accuracy * accuracy;
+
+    if (!ref || !east || !north || timestamp - lastTimestamp > MAX_GAP || timestamp < lastTimestamp) {
+      init(coords, timestamp, variance);
+      return coords;
+    }
+
+    const dt = (timestamp - lastTimestamp) / 1000;
+    lastTimestamp = timestamp;
+    const z = project(coords.latitude, coords.longitude, ref);
+
+    if (dt > 0) {
+      predictAxis(east, dt, processNoise);
+      predictAxis(north, dt, processNoise);
+    }
+    updateAxis(east, z.x, variance);
+    updateAxis(north, z.y, variance);
+
+    const filteredRef = ref;
+    const { latitude, longitude } = unproject(east.p, north.p, filteredRef);
+    const filteredAccuracy = Math.sqrt(Math.max(east.p00, north.p00));
+    const velocity = Math.hypot(east.v, north.v);
+    const course = (toDeg(Math.atan2(east.v, north.v)) + 360) % 360;
+
+    if (Math.hypot(east.p, north.p) > MAX_REFERENCE_DRIFT) {
+      const { v: ve, p00: e00, p01: e01, p10: e10, p11: e11 } = east;
+      const { v: vn, p00: n00, p01: n01, p10: n10, p11: n11 } = north;
+      init({ ...coords, latitude, longitude }, timestamp, variance);
+      east = { p: 0, v: ve, p00: e00, p01: e01, p10: e10, p11: e11 };
+      north = { p: 0, v: vn, p00: n00, p01: n01, p10: n10, p11: n11 };
+    }
+
+    return {
+      latitude,
+      longitude,
+      accuracy: Math.min(filteredAccuracy, accuracy),
+      altitude: coords.altitude,
+      speed: coords.speed ?? velocity,
+      heading: coords.heading ?? (velocity > 0.5 ? course : null),
+    };
+  };
+
+  return { process, reset };
+};
@@ -0,0 +1,236 @@
+import type { BoundingBox } from '@/lib/geo';
+
+// Compact location codes. Each one names a cell rather than a point, so
+// decoding returns the cell's bounds along with its centre.
+
+export type LocationCodeKind = 'pluscode' | 'geohash' | 'maidenhead';
+
+export const LOCATION_CODE_LABELS: Record<LocationCodeKind, string> = {
+  pluscode: 'PLUS',
+  geohash: 'GEOHASH',
+  maidenhead: 'LOCATOR',
+};
+
+export type DecodedLocationCode = { lat: number; lng: number; bounds: BoundingBox };
+
+const cell = (minLat: number, minLng: number, maxLat: number, maxLng: number): DecodedLocationCode => ({
+  lat: (minLat + maxLat) / 2,
+  lng: (minLng + maxLng) / 2,
+  bounds: { minLat, minLng, maxLat, maxLng },
+});
+
+const normalizeLng = (lng: number) => ((lng + 180) % 360 + 360) % 360 - 180;
+const clipLat = (lat: number) => Math.min(90, Math.max(-90, lat));
+
+// --- Open Location Code (Plus Codes) ---
+// Five lat/lng digit pairs (20° down to 0.000125°), then optional grid
+// digits that split each cell into 5 rows × 4 columns.
+
+const OLC_ALPHABET = '23456789CFGHJMPQRVWX';
+const OLC_SEPARATOR = '+';
+const OLC_SEPARATOR_POSITION = 8;
+const OLC_PADDING = '0';
+const OLC_PAIR_LENGTH = 10;
+const OLC_MAX_LENGTH = 15;
+const OLC_GRID_ROWS = 5;
+const OLC_GRID_COLUMNS = 4;
+const OLC_PAIR_RESOLUTIONS = [20, 1, 0.05, 0.0025, 0.000125];
+const OLC_FINAL_LAT_PRECISION = 8000 * OLC_GRID_ROWS ** (OLC_MAX_LENGTH - OLC_PAIR_LENGTH);
+const OLC_FINAL_LNG_PRECISION = 8000 * OLC_GRID_COLUMNS ** (OLC_MAX_LENGTH - OLC_PAIR_LENGTH);
+
+export const DEFAULT_PLUS_CODE_LENGTH = 10; // ≈ 14 m cell
+
+export const encodePlusCode = (lat: number, lng: number, codeLength = DEFAULT_PLUS_CODE_LENGTH): string => {
+  const length = Math.min(Math.max(codeLength, 2), OLC_MAX_LENGTH);
+  if (length < OLC_PAIR_LENGTH && length % 2 === 1) throw new Error(`Invalid plus code length ${codeLength}`);
+  // Integer arithmetic at the finest precision avoids digits flipping on float error.
+  let latVal = Math.floor(Math.round((clipLat(lat) + 90) * OLC_FINAL_LAT_PRECISION * 1e6) / 1e6);
+  let lngVal = Math.floor(Math.round((normalizeLng(lng) + 180) * OLC_FINAL_LNG_PRECISION * 1e6) / 1e6);
+  latVal = Math.min(latVal, 180 * OLC_FINAL_LAT_PRECISION - 1);
+
+  let code = '';
+  if (length > OLC_PAIR_LENGTH) {
+    for (let i = 0; i < OLC_MAX_LENGTH - OLC_PAIR_LENGTH; i++) {
+      code = OLC_ALPHABET[(latVal % OLC_GRID_ROWS) * OLC_GRID_COLUMNS + (lngVal % OLC_GRID_COLUMNS)] + code;
+      latVal = Math.floor(latVal / OLC_GRID_ROWS);
+      lngVal = Math.floor(lngVal / OLC_GRID_COLUMNS);
+    }
+  } else {
+    latVal = Math.floor(latVal / OLC_GRID_ROWS ** (OLC_MAX_LENGTH - OLC_PAIR_LENGTH));
+    lngVal = Math.floor(lngVal / OLC_GRID_COLUMNS ** (OLC_MAX_LENGTH - OLC_PAIR_LENGTH));
+  }
+  for (let i = 0; i < OLC_PAIR_LENGTH / 2; i++) {
+    code = OLC_ALPHABET[latVal % 20] + OLC_ALPHABET[lngVal % 20] + code;
+    latVal = Math.floor(latVal / 20);
+    lngVal = Math.floor(lngVal / 20);
+  }
+
+  const digits = code.slice(0, length);
+  if (digits.length < OLC_SEPARATOR_POSITION) return digits.padEnd(OLC_SEPARATOR_POSITION, OLC_PADDING) + OLC_SEPARATOR;
+  return `${digits.slice(0, OLC_SEPARATOR_POSITION)}${OLC_SEPARATOR}${digits.slice(OLC_SEPARATOR_POSITION)}`;
+};
+
+// Full codes only; short codes need a reference location to recover.
+export const decodePlusCode = (input: string): DecodedLocationCode | null => {
+  const code = input.trim().toUpperCase();
+  const match = code.match(/^([23456789CFGHJMPQRVWX]{2,8})(0*)\+([23456789CFGHJMPQRVWX]*)$/);
+  if (!match || match[1].length + match[2].length !== OLC_SEPARATOR_POSITION) return null;
+  const [, head, padding, tail] = match;
+  if (padding && (head.length % 2 === 1 || tail)) return null;
+  if (tail.length === 1) return null;
+  // The first lat digit must stay below 180°, the first lng digit below 360°.
+  if (OLC_ALPHABET.indexOf(head[0]) > 8 || OLC_ALPHABET.indexOf(head[1] ?? '2') > 17) return null;
+
+  const digits = (head + tail).slice(0, OLC_MAX_LENGTH);
+  let lat = -90;
+  let lng = -180;
+  let latRes = 0;
+  let lngRes = 0;
+  for (let i = 0; i < Math.min(digits.length, OLC_PAIR_LENGTH); i += 2) {
+    latRes = lngRes = OLC_PAIR_RESOLUTIONS[i / 2];
+    lat += OLC_ALPHABET.indexOf(digits[i]) * latRes;
+    lng += OLC_ALPHABET.indexOf(digits[i + 1]) * lngRes;
+  }
+  for (let i = OLC_PAIR_LENGTH; i < digits.length; i++) {
+    const index = OLC_ALPHABET.indexOf(digits[i]);
+    latRes /= OLC_GRID_ROWS;
+    lngRes /= OLC_GRID_COLUMNS;
+    lat += Math.floor(index / OLC_GRID_COLUMNS) * latRes;
+    lng += (index % OLC_GRID_COLUMNS) * lngRes;
+  }
+  return cell(lat, lng, Math.min(lat + latRes, 90), Math.min(lng + lngRes, 180));
+};
+
+// --- Geohash ---
+
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+export const GEOHASH_PRECISION_RANGE = { min: 1, max: 12 };
+export const DEFAULT_GEOHASH_PRECISION = 9; // ≈ 4.8 m × 4.8 m
+
+export const encodeGeohash = (lat: number, lng: number, precision = DEFAULT_GEOHASH_PRECISION): string => {
+  let minLat = -90, maxLat = 90, minLng = -180, maxLng = 180;
+  const target = { lat: clipLat(lat), lng: normalizeLng(lng) };
+  let hash = '';
+  let bits = 0;
+  let value = 0;
+  let evenBit = true;
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (minLng + maxLng) / 2;
+      if (target.lng >= mid) { value = value * 2 + 1; minLng = mid; } else { value *= 2; maxLng = mid; }
+    } else {
+      const mid = (minLat + maxLat) / 2;
+      if (target.lat >= mid) { value = value * 2 + 1; minLat = mid; } else { value *= 2; maxLat = mid; }
+    }
+    evenBit = !evenBit;
+    if (++bits === 5) {
+      hash += GEOHASH_ALPHABET[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+  return hash;
+};
+
+export const decodeGeohash = (input: string): DecodedLocationCode | null => {
+  const hash = input.trim().toLowerCase();
+  if (!/^[0-9bcdefghjkmnpqrstuvwxyz]{1,12}$/.test(hash)) return null;
+  let minLat = -90, maxLat = 90, minLng = -180, maxLng = 180;
+  let evenBit = true;
+  for (const char of hash) {
+    const value = GEOHASH_ALPHABET.indexOf(char);
+    for (let bit = 4; bit >= 0; bit--) {
+      const set = (value >> bit) & 1;
+      if (evenBit) {
+        const mid = (minLng + maxLng) / 2;
+        if (set) minLng = mid; else maxLng = mid;
+      } else {
+        const mid = (minLat + maxLat) / 2;
+        if (set) minLat = mid; else maxLat = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+  return cell(minLat, minLng, maxLat, maxLng);
+};
+
+// --- Maidenhead locator ---
+// Field (18 × 18 letters), square (10 × 10 digits), subsquare (24 × 24
+// letters), extended square (10 × 10 digits).
+
+const MAIDENHEAD_DIVISIONS = [18, 10, 24, 10];
+
+export const DEFAULT_MAIDENHEAD_PAIRS = 3; // e.g. JN47pi, ≈ 5′ × 2.5′
+
+export const encodeMaidenhead = (lat: number, lng: number, pairs = DEFAULT_MAIDENHEAD_PAIRS): string => {
+  let latRem = Math.min(clipLat(lat) + 90, 180 - 1e-9);
+  let lngRem = Math.min(normalizeLng(lng) + 180, 360 - 1e-9);
+  let latSize = 180;
+  let lngSize = 360;
+  let locator = '';
+  for (let i = 0; i < Math.min(pairs, MAIDENHEAD_DIVISIONS.length); i++) {
+    const divisions = MAIDENHEAD_DIVISIONS[i];
+    latSize /= divisions;
+    lngSize /= divisions;
+    const lngIndex = Math.floor(lngRem / lngSize);
+    const latIndex = Math.floor(latRem / latSize);
+    lngRem -= lngIndex * lngSize;
+    latRem -= latIndex * latSize;
+    locator += divisions === 10
+      ? `${lngIndex}${latIndex}`
+      : String.fromCharCode((i === 0 ? 65 : 97) + lngIndex, (i === 0 ? 65 : 97) + latIndex);
+  }
+  return locator;
+};
+
+export const decodeMaidenhead = (input: string): DecodedLocationCode | null => {
+  const locator = input.trim();
+  if (!/^[A-Ra-r]{2}(?:\d{2}(?:[A-Xa-x]{2}(?:\d{2})?)?)?$/.test(locator)) return null;
+  let lat = -90;
+  let lng = -180;
+  let latSize = 180;
+  let lngSize = 360;
+  for (let i = 0; i < locator.length / 2; i++) {
+    const divisions = MAIDENHEAD_DIVISIONS[i];
+    latSize /= divisions;
+    lngSize /= divisions;
+    const pair = locator.slice(i * 2, i * 2 + 2).toUpperCase();
+    const index = (c: string) => divisions === 10 ? Number(c) : c.charCodeAt(0) - 65;
+    lng += index(pair[0]) * lngSize;
+    lat += index(pair[1]) * latSize;
+  }
+  return cell(lat, lng, lat + latSize, lng + lngSize);
+};
+
+export const decodeLocationCode = (kind: LocationCodeKind, code: string): DecodedLocationCode | null => {
+  if (kind === 'pluscode') return decodePlusCode(code);
+  if (kind === 'geohash') return decodeGeohash(code);
+  return decodeMaidenhead(code);
+};
+
+// Short codes (leading digits dropped) are resolved to the matching cell
+// nearest the reference location, as the OLC spec does.
+export const recoverPlusCode = (input: string, reference: { lat: number; lng: number }): DecodedLocationCode | null => {
+  const code = input.trim().toUpperCase();
+  const separator = code.indexOf(OLC_SEPARATOR);
+  if (separator === OLC_SEPARATOR_POSITION) return decodePlusCode(code);
+  if (separator < 2 || separator % 2 === 1 || separator > OLC_SEPARATOR_POSITION) return null;
+
+  const missing = OLC_SEPARATOR_POSITION - separator;
+  const resolution = 20 ** (2 - missing / 2);
+  const prefix = encodePlusCode(reference.lat, reference.lng).slice(0, missing);
+  const decoded = decodePlusCode(prefix + code);
+  if (!decoded) return null;
+
+  const shift = (value: number, ref: number) => {
+    if (ref - value > resolution / 2) return resolution;
+    if (value - ref > resolution / 2) return -resolution;
+    return 0;
+  };
+  let dLat = shift(decoded.lat, reference.lat);
+  if (decoded.lat + dLat > 90 || decoded.lat + dLat < -90) dLat = 0;
+  const dLng = shift(decoded.lng, reference.lng);
+  const { minLat, minLng, maxLat, maxLng } = decoded.bounds;
+  return cell(minLat + dLat, normalizeLng(minLng + dLng), maxLat + dLat, normalizeLng(minLng + dLng) + (maxLng - minLng));
+};
@@ -0,0 +1,190 @@
+import { getBearing, getDestination, getDistance, type Coordinates, type GeoPoint } from '@/lib/geo';
+
+// --- Types ---
+export type LocationFix = { coords: Coordinates; timestamp: number };
+
+export type LocationProvider = {
+  id: LocationSourceKind;
+  label: string;
+  // Starts emitting fixes; returns a function that stops the source.
+  watch: (onFix: (fix: LocationFix) => void, onError: (message: string) => void) => () => void;
+  // Replay only: changes playback speed without restarting the track.
+  setRate?: (rate: number) => void;
+};
+
+export type LocationSourceKind = 'browser' | 'simulator' | 'replay';
+
+export type LocationSourceConfig =
+  | { kind: 'browser' }
+  | { kind: 'simulator'; route: [number, number][]; speed: number; noise: number }
+  | { kind: 'replay'; name: string; points: GeoPoint[] };
+
+export const REPLAY_RATES = [1, 2, 5, 10, 20];
+export const DEFAULT_REPLAY_RATE = 1;
+const SIMULATOR_INTERVAL = 1000;
+const REPLAY_MIN_INTERVAL = 50;
+
+// Standard normal sample (Box–Muller).
+const gaussian = () => {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// --- Browser ---
+export const createBrowserProvider = (): LocationProvider => ({
+  id: 'browser',
+  label: 'Device GPS',
+  watch: (onFix, onError) => {
+    if (typeof window === 'undefined' || !navigator.geolocation) {
+      onError("Geolocation not supported");
+      return () => {};
+    }
+    const id = navigator.geolocation.watchPosition(
+      ({ coords, timestamp }: GeolocationPosition) => onFix({
+        coords: {
+          latitude: coords.latitude,
+          longitude: coords.longitude,
+          accuracy: coords.accuracy,
+          altitude: coords.altitude,
+          speed: coords.speed,
+          heading: coords.heading,
+        },
+        timestamp,
+      }),
+      (error) => {
+        if (error.code === error.TIMEOUT) return;
+        onError("Signal Lost");
+      },
+      { enableHighAccuracy: true, timeout: 15000, maximumAge: 1000 }
+    );
+    return () => navigator.geolocation.clearWatch(id);
+  },
+});
+
+// --- Simulator ---
+// Builds a closed ~400 m loop around a centre point for the scripted walk.
+export const createDemoRoute = (lat: number, lng: number): [number, number][] =>
+  [0, 60, 150, 210, 270, 330, 0].map((bearing, i) => {
+    const p = getDestination(lat, lng, bearing, i % 2 === 0 ? 120 : 80);
+    return [p.lat, p.lng];
+  });
+
+export const createSimulatedProvider = (route: [number, number][], speed: number, noise: number): LocationProvider => ({
+  id: 'simulator',
+  label: 'Simulator',
+  watch: (onFix, onError) => {
+    if (route.length < 2) {
+      onError("Simulator route needs two points");
+      return () => {};
+    }
+    const legs = route.slice(1).map(([lat, lng], i) => {
+      const [pLat, pLng] = route[i];
+      return { from: route[i], length: getDistance(pLat, pLng, lat, lng), bearing: getBearing(pLat, pLng, lat, lng) };
+    });
+    const total = legs.reduce((sum, leg) => sum + leg.length, 0);
+    let travelled = 0;
+
+    const tick = () => {
+      let offset = total > 0 ? travelled % total : 0;
+      const leg = legs.find(l => { if (offset <= l.length) return true; offset -= l.length; return false; }) ?? legs[legs.length - 1];
+      const onLine = getDestination(leg.from[0], leg.from[1], leg.bearing, offset);
+      const jitter = getDestination(onLine.lat, onLine.lng, Math.random() * 360, Math.abs(gaussian()) * noise);
+      onFix({
+        coords: {
+          latitude: jitter.lat,
+          longitude: jitter.lng,
+          accuracy: Math.max(noise * 2, 3),
+          altitude: null,
+          speed: Math.max(speed + gaussian() * 0.1 * speed, 0),
+          heading: leg.bearing,
+        },
+        timestamp: Date.now(),
+      });
+      travelled += speed * SIMULATOR_INTERVAL / 1000;
+    };
+
+    tick();
+    const id = setInterval(tick, SIMULATOR_INTERVAL);
+    return () => clearInterval(id);
+  },
+});
+
+// --- Replay ---
+// Plays a recorded track back with its original spacing divided by the rate.
+// Fix timestamps advance in track time so speed checks see the real pace.
+// A rate change reschedules the pending fix, so playback keeps its place.
+export const createReplayProvider = (points: GeoPoint[], initialRate = DEFAULT_REPLAY_RATE): LocationProvider => {
+  let rate = initialRate;
+  let onRateChange: (() => void) | null = null;
+
+  return {
+    id: 'replay',
+    label: 'GPX Replay',
+    setRate: (next) => {
+      if (next === rate) return;
+      rate = next;
+      onRateChange?.();
+    },
+    watch: (onFix, onError) => {
+      if (points.length === 0) {
+        onError("Replay track is empty");
+        return () => {};
+      }
+      const origin = Date.now();
+      const t0 = points[0].timestamp;
+      let index = 0;
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      // Track time still to wait for the pending fix, and when and at what rate it was scheduled.
+      let pending = { trackDelay: 0, scheduledAt: 0, rate };
+
+      const schedule = (trackDelay: number) => {
+        pending = { trackDelay, scheduledAt: Date.now(), rate };
+        timeoutId = setTimeout(emit, Math.max(trackDelay / rate, REPLAY_MIN_INTERVAL));
+      };
+
+      const emit = () => {
+        timeoutId = undefined;
+        const p = points[index];
+        const prev = index > 0 ? points[index - 1] : null;
+        const dt = prev ? (p.timestamp - prev.timestamp) / 1000 : 0;
+        const distance = prev ? getDistance(prev.lat, prev.lng, p.lat, p.lng) : 0;
+        onFix({
+          coords: {
+            latitude: p.lat,
+            longitude: p.lng,
+            accuracy: 5,
+            altitude: p.alt,
+            speed: dt > 0 ? distance / dt : null,
+            heading: prev && distance > 0 ? getBearing(prev.lat, prev.lng, p.lat, p.lng) : null,
+          },
+          timestamp: origin + (p.timestamp - t0),
+        });
+        index++;
+        if (index >= points.length) return;
+        schedule(points[index].timestamp - p.timestamp);
+      };
+
+      onRateChange = () => {
+        if (timeoutId === undefined) return;
+        clearTimeout(timeoutId);
+        const elapsed = (Date.now() - pending.scheduledAt) * pending.rate;
+        schedule(Math.max(pending.trackDelay - elapsed, 0));
+      };
+
+      emit();
+      return () => {
+        clearTimeout(timeoutId);
+        onRateChange = null;
+      };
+    },
+  };
+};
+
+export const createLocationProvider = (config: LocationSourceConfig): LocationProvider => {
+  switch (config.kind) {
+    case 'simulator': return createSimulatedProvider(config.route, config.speed, config.noise);
+    case 'replay': return createReplayProvider(config.points);
+    default: return createBrowserProvider();
+  }
+};
@@ -0,0 +1,150 @@
+import { toDeg, toRad } from '@/lib/geo';
+
+// Low-precision lunar ephemeris (Meeus ch. 47, leading terms only), good to
+// a fraction of a degree: plenty for a compass marker and rise/set times to
+// a few minutes. Rise and set are found by stepping through the local day
+// and interpolating where the altitude crosses the horizon.
+
+const MINUTE = 60_000;
+const HOUR = 3_600_000;
+const DAY = 86_400_000;
+const J2000 = 946_728_000_000; // 2000-01-01T12:00Z
+const OBLIQUITY = toRad(23.4397);
+const SUN_DISTANCE = 149_598_000; // km
+// Moon's parallax (~0.95°) minus refraction and semi-diameter.
+const MOONRISE_ALTITUDE = 0.133;
+
+export type MoonPhaseName =
+  | 'new' | 'waxing-crescent' | 'first-quarter' | 'waxing-gibbous'
+  | 'full' | 'waning-gibbous' | 'last-quarter' | 'waning-crescent';
+
+export const MOON_PHASE_LABELS: Record<MoonPhaseName, string> = {
+  'new': 'New Moon',
+  'waxing-crescent': 'Waxing Crescent',
+  'first-quarter': 'First Quarter',
+  'waxing-gibbous': 'Waxing Gibbous',
+  'full': 'Full Moon',
+  'waning-gibbous': 'Waning Gibbous',
+  'last-quarter': 'Last Quarter',
+  'waning-crescent': 'Waning Crescent',
+};
+
+const PHASE_ORDER: MoonPhaseName[] = ['new', 'waxing-crescent', 'first-quarter', 'waxing-gibbous', 'full', 'waning-gibbous', 'last-quarter', 'waning-crescent'];
+
+export type MoonPosition = {
+  elevation: number; // degrees, topocentric parallax not applied
+  azimuth: number; // degrees true
+  distance: number; // km
+};
+
+export type MoonIllumination = {
+  fraction: number; // 0–1 of the disc lit
+  phase: number; // 0 new, 0.25 first quarter, 0.5 full, 0.75 last quarter
+  name: MoonPhaseName;
+  waxing: boolean;
+};
+
+export type MoonTimes = {
+  rise: Date | null;
+  set: Date | null;
+  alwaysUp: boolean;
+  alwaysDown: boolean;
+};
+
+const daysSinceJ2000 = (time: number) => (time - J2000) / DAY;
+
+const equatorial = (longitude: number, latitude: number) => ({
+  rightAscension: Math.atan2(Math.sin(longitude) * Math.cos(OBLIQUITY) - Math.tan(latitude) * Math.sin(OBLIQUITY), Math.cos(longitude)),
+  declination: Math.asin(Math.sin(latitude) * Math.cos(OBLIQUITY) + Math.cos(latitude) * Math.sin(OBLIQUITY) * Math.sin(longitude)),
+});
+
+const moonCoordinates = (d: number) => {
+  const L = toRad(218.316 + 13.176396 * d); // ecliptic longitude
+  const M = toRad(134.963 + 13.064993 * d); // mean anomaly
+  const F = toRad(93.272 + 13.229350 * d); // mean distance
+  const longitude = L + toRad(6.289) * Math.sin(M);
+  const latitude = toRad(5.128) * Math.sin(F);
+  return { ...equatorial(longitude, latitude), distance: 385001 - 20905 * Math.cos(M) };
+};
+
+const sunCoordinates = (d: number) => {
+  const M = toRad(357.5291 + 0.98560028 * d);
+  const center = toRad(1.9148 * Math.sin(M) + 0.02 * Math.sin(2 * M) + 0.0003 * Math.sin(3 * M));
+  return equatorial(M + center + toRad(102.9372) + Math.PI, 0);
+};
+
+const horizontal = (d: number, lat: number, lng: number, rightAscension: number, declination: number) => {
+  const hourAngle = toRad(280.16 + 360.9856235 * d + lng) - rightAscension;
+  const φ = toRad(lat);
+  const elevation = Math.asin(Math.sin(φ) * Math.sin(declination) + Math.cos(φ) * Math.cos(declination) * Math.cos(hourAngle));
+  const azimuth = Math.atan2(Math.sin(hourAngle), Math.cos(hourAngle) * Math.sin(φ) - Math.tan(declination) * Math.cos(φ));
+  return { elevation: toDeg(elevation), azimuth: (toDeg(azimuth) + 180 + 360) % 360 };
+};
+
+export const getMoonPosition = (date: Date, lat: number, lng: number): MoonPosition => {
+  const d = daysSinceJ2000(date.getTime());
+  const moon = moonCoordinates(d);
+  return { ...horizontal(d, lat, lng, moon.rightAscension, moon.declination), distance: moon.distance };
+};
+
+export const getMoonIllumination = (date: Date): MoonIllumination => {
+  const d = daysSinceJ2000(date.getTime());
+  const sun = sunCoordinates(d);
+  const moon = moonCoordinates(d);
+  const raDiff = sun.rightAscension - moon.rightAscension;
+  const elongation = Math.acos(Math.sin(sun.declination) * Math.sin(moon.declination) + Math.cos(sun.declination) * Math.cos(moon.declination) * Math.cos(raDiff));
+  const incidence = Math.atan2(SUN_DISTANCE * Math.sin(elongation), moon.distance - SUN_DISTANCE * Math.cos(elongation));
+  const angle = Math.atan2(Math.cos(sun.declination) * Math.sin(raDiff), Math.sin(sun.declination) * Math.cos(moon.declination) - Math.cos(sun.declination) * Math.sin(moon.declination) * Math.cos(raDiff));
+  const phase = 0.5 + 0.5 * incidence * (angle < 0 ? -1 : 1) / Math.PI;
+  return {
+    fraction: (1 + Math.cos(incidence)) / 2,
+    phase,
+    name: PHASE_ORDER[Math.round(phase * 8) % 8],
+    waxing: phase < 0.5,
+  };
+};
+
+// Rise and set within the local mean solar day containing `date`.
+export const getMoonTimes = (date: Date, lat: number, lng: number): MoonTimes => {
+  const start = Math.floor((date.getTime() + lng * 4 * MINUTE) / DAY) * DAY - lng * 4 * MINUTE;
+  const altitude = (time: number) => getMoonPosition(new Date(time), lat, lng).elevation - MOONRISE_ALTITUDE;
+  let rise: number | null = null;
+  let set: number | null = null;
+  let h0 = altitude(start);
+  let ye = 0;
+
+  // Fit a parabola through each two-hour window and solve for its roots.
+  for (let i = 1; i <= 24 && (rise === null || set === null); i += 2) {
+    const h1 = altitude(start + i * HOUR);
+    const h2 = altitude(start + (i + 1) * HOUR);
+    const a = (h0 + h2) / 2 - h1;
+    const b = (h2 - h0) / 2;
+    const xe = -b / (2 * a);
+    ye = (a * xe + b) * xe + h1;
+    const discriminant = b * b - 4 * a * h1;
+    let roots = 0, x1 = 0, x2 = 0;
+    if (discriminant >= 0) {
+      const dx = Math.sqrt(discriminant) / (Math.abs(a) * 2);
+      x1 = xe - dx;
+      x2 = xe + dx;
+      if (Math.abs(x1) <= 1) roots++;
+      if (Math.abs(x2) <= 1) roots++;
+      if (x1 < -1) x1 = x2;
+    }
+    if (roots === 1) {
+      if (h0 < 0) rise ??= start + (i + x1) * HOUR;
+      else set ??= start + (i + x1) * HOUR;
+    } else if (roots === 2) {
+      rise ??= start + (i + (ye < 0 ? x2 : x1)) * HOUR;
+      set ??= start + (i + (ye < 0 ? x1 : x2)) * HOUR;
+    }
+    h0 = h2;
+  }
+
+  return {
+    rise: rise !== null ? new Date(rise) : null,
+    set: set !== null ? new Date(set) : null,
+    alwaysUp: rise === null && set === null && ye > 0,
+    alwaysDown: rise === null && set === null && ye <= 0,
+  };
+};
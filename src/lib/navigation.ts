@@ -0,0 +1,54 @@
+import { getBearing, getCrossTrackDistance, getDistance } from '@/lib/geo';
+
+// Go-to navigation towards a single point. Cross-track error is measured
+// against the great circle from where navigation started to the target.
+
+const MIN_ETA_SPEED = 0.3; // m/s; slower than this the ETA is meaningless
+const ARRIVAL_HYSTERESIS = 1.5; // leave the radius by this factor before re-arming
+
+export const ARRIVAL_RADIUS_RANGE = { min: 5, max: 200, step: 5 };
+export const DEFAULT_ARRIVAL_RADIUS = 20; // m
+
+export type NavTarget = {
+  name: string;
+  lat: number;
+  lng: number;
+  origin: { lat: number; lng: number } | null;
+};
+
+export type GoToSolution = {
+  distance: number; // m
+  bearing: number; // degrees true, initial great-circle bearing
+  crossTrack: number | null; // m, positive right of course
+  eta: number | null; // ms
+};
+
+export const solveGoTo = (position: { lat: number; lng: number }, target: NavTarget, speed: number | null): GoToSolution => {
+  const distance = getDistance(position.lat, position.lng, target.lat, target.lng);
+  const { origin } = target;
+  const hasCourse = origin !== null && getDistance(origin.lat, origin.lng, target.lat, target.lng) > 1;
+  return {
+    distance,
+    bearing: getBearing(position.lat, position.lng, target.lat, target.lng),
+    crossTrack: hasCourse ? getCrossTrackDistance(origin, target, position) : null,
+    eta: speed !== null && speed > MIN_ETA_SPEED ? (distance / speed) * 1000 : null,
+  };
+};
+
+// Fires once per approach: true the first time `distance` drops inside the
+// radius, and re-arms only after moving back out past the hysteresis band.
+export const createArrivalDetector = () => {
+  let arrived = false;
+  return {
+    update(distance: number, radius: number) {
+      if (!arrived && distance <= radius) {
+        arrived = true;
+        return true;
+      }
+      if (arrived && distance > radius * ARRIVAL_HYSTERESIS) arrived = false;
+      return false;
+    },
+    get arrived() { return arrived; },
+    reset() { arrived = false; },
+  };
+};
@@ -0,0 +1,73 @@
+import { toDeg, toRad } from '@/lib/geo';
+
+// Tilt-compensated compass heading. Both sensor paths produce a rotation
+// matrix from device to earth coordinates (x east, y north, z up); the
+// heading is taken from the direction the user is facing rather than from
+// alpha alone, which swings once the phone is pitched up.
+
+export type HeadingMethod = 'fusion' | 'tilt' | 'ios' | 'alpha';
+
+export const HEADING_METHOD_LABELS: Record<HeadingMethod, string> = {
+  fusion: 'FUSED',
+  tilt: 'TILT',
+  ios: 'IOS',
+  alpha: 'α',
+};
+
+// Below this horizontal length the facing direction is too close to vertical to trust.
+const MIN_HORIZONTAL = 0.2;
+
+// Row-major 3×3; column i is device axis i expressed in earth coordinates.
+export type RotationMatrix = [number, number, number, number, number, number, number, number, number];
+
+// W3C DeviceOrientation angles are intrinsic Z-X'-Y'' rotations.
+export const rotationMatrixFromEuler = (alpha: number, beta: number, gamma: number): RotationMatrix => {
+  const cZ = Math.cos(toRad(alpha)), sZ = Math.sin(toRad(alpha));
+  const cX = Math.cos(toRad(beta)), sX = Math.sin(toRad(beta));
+  const cY = Math.cos(toRad(gamma)), sY = Math.sin(toRad(gamma));
+  return [
+    cZ * cY - sZ * sX * sY, -sZ * cX, cZ * sY + sZ * sX * cY,
+    sZ * cY + cZ * sX * sY, cZ * cX, sZ * sY - cZ * sX * cY,
+    -cX * sY, sX, cX * cY,
+  ];
+};
+
+// Generic Sensor API quaternion, [x, y, z, w].
+export const rotationMatrixFromQuaternion = ([x, y, z, w]: readonly number[]): RotationMatrix => [
+  1 - 2 * (y * y + z * z), 2 * (x * y - z * w), 2 * (x * z + y * w),
+  2 * (x * y + z * w), 1 - 2 * (x * x + z * z), 2 * (y * z - x * w),
+  2 * (x * z - y * w), 2 * (y * z + x * w), 1 - 2 * (x * x + y * y),
+];
+
+// The facing direction blends the back of the device and the top of the
+// screen, both flattened onto the horizon, by how flat the screen lies (m[8],
+// the up component of the screen normal): flat, only the top counts; upright,
+// only the back. Past vertical the top's weight turns negative, so the top
+// edge, which now leans back towards the user, still points the way the
+// camera faces instead of cancelling it. `screenAngle` (screen.orientation.angle)
+// picks which device edge is the top of the screen in landscape.
+export const headingFromRotationMatrix = (m: RotationMatrix, screenAngle = 0): number | null => {
+  const c = Math.cos(toRad(screenAngle));
+  const s = Math.sin(toRad(screenAngle));
+  const flat = m[8];
+  const upright = 1 - Math.abs(flat);
+  const east = flat * (c * m[1] + s * m[0]) - upright * m[2];
+  const north = flat * (c * m[4] + s * m[3]) - upright * m[5];
+  if (Math.hypot(east, north) < MIN_HORIZONTAL) return null;
+  return (toDeg(Math.atan2(east, north)) + 360) % 360;
+};
+
+export type CameraDirection = {
+  heading: number | null; // degrees, null when the camera looks too close to straight up or down
+  elevation: number; // degrees above the horizon
+};
+
+// The rear camera looks along the device's −z axis, whatever the screen
+// orientation, so unlike the facing direction it needs no blending.
+export const cameraDirectionFromRotationMatrix = (m: RotationMatrix): CameraDirection => {
+  const east = -m[2];
+  const north = -m[5];
+  const elevation = toDeg(Math.asin(Math.min(Math.max(-m[8], -1), 1)));
+  if (Math.hypot(east, north) < MIN_HORIZONTAL) return { heading: null, elevation };
+  return { heading: (toDeg(Math.atan2(east, north)) + 360) % 360, elevation };
+};
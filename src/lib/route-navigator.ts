@@ -0,0 +1,124 @@
+import { EARTH_RADIUS, getBearing, getDistance, toRad } from '@/lib/geo';
+import { simplifyLine } from '@/lib/simplify';
+
+// Follows an ordered polyline (waypoint route or imported track). Each fix is
+// snapped to the nearest leg at or ahead of the current one, so the navigator
+// never jumps backwards and an out-and-back route is not short-circuited.
+
+const OFF_ROUTE_EXIT_FACTOR = 0.7; // back on route once inside this share of the threshold
+
+export const OFF_ROUTE_RANGE = { min: 10, max: 200, step: 5 };
+export const DEFAULT_OFF_ROUTE_DISTANCE = 30; // m
+const TRACBACK_TOLERANCE = 5; // m; GPS jitter in the breadcrumbs isn't worth a leg of its own
+
+export type RoutePoint = { lat: number; lng: number; name?: string };
+
+export type Route = { name: string; kind?: 'route' | 'tracback'; points: RoutePoint[] };
+
+export type RouteProgress = {
+  legIndex: number; // leg i runs from points[i] to points[i + 1]
+  legCount: number;
+  snapped: { lat: number; lng: number };
+  next: RoutePoint;
+  distanceToNext: number; // m, straight line
+  bearingToNext: number; // degrees true
+  offRouteDistance: number; // m from the snapped point
+  isOffRoute: boolean;
+  remaining: number; // m along the route from the snapped point
+  total: number; // m
+  finished: boolean;
+};
+
+type Snap = { leg: number; t: number; distance: number };
+
+// Closest point on segment a→b in a local plane centred on p (metres).
+const snapToLeg = (p: RoutePoint, a: RoutePoint, b: RoutePoint) => {
+  const cosLat = Math.cos(toRad(p.lat));
+  const ax = toRad(a.lng - p.lng) * cosLat * EARTH_RADIUS;
+  const ay = toRad(a.lat - p.lat) * EARTH_RADIUS;
+  const bx = toRad(b.lng - p.lng) * cosLat * EARTH_RADIUS;
+  const by = toRad(b.lat - p.lat) * EARTH_RADIUS;
+  const dx = bx - ax;
+  const dy = by - ay;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / len2));
+  return { t, distance: Math.hypot(ax + t * dx, ay + t * dy) };
+};
+
+export const createRouteNavigator = (route: Route) => {
+  const { points } = route;
+  const cumulative = points.map(() => 0);
+  for (let i = 1; i < points.length; i++) {
+    cumulative[i] = cumulative[i - 1] + getDistance(points[i - 1].lat, points[i - 1].lng, points[i].lat, points[i].lng);
+  }
+  const total = cumulative[cumulative.length - 1] ?? 0;
+  const legCount = Math.max(points.length - 1, 0);
+  let legIndex = 0;
+  let offRoute = false;
+  let finished = false;
+
+  // Prefers the first leg ahead that lies within the off-route threshold;
+  // only when none does is the nearest leg anywhere ahead used.
+  const snap = (position: RoutePoint, threshold: number): Snap => {
+    let nearest: Snap | null = null;
+    for (let leg = legIndex; leg < legCount; leg++) {
+      const { t, distance } = snapToLeg(position, points[leg], points[leg + 1]);
+      if (distance <= threshold && (leg === legIndex || t > 0)) return { leg, t, distance };
+      if (!nearest || distance < nearest.distance) nearest = { leg, t, distance };
+    }
+    return nearest ?? { leg: 0, t: 0, distance: getDistance(position.lat, position.lng, points[0].lat, points[0].lng) };
+  };
+
+  return {
+    route,
+    update(position: { lat: number; lng: number }, offRouteDistance: number, arrivalRadius: number): RouteProgress {
+      const s = snap(position, offRouteDistance);
+      legIndex = s.leg;
+      const from = points[legIndex];
+      const to = points[Math.min(legIndex + 1, points.length - 1)];
+      const snapped = { lat: from.lat + (to.lat - from.lat) * s.t, lng: from.lng + (to.lng - from.lng) * s.t };
+      let distanceToNext = getDistance(position.lat, position.lng, to.lat, to.lng);
+
+      // A leg is done once its end is reached or passed; the final leg ends the route.
+      if (distanceToNext <= arrivalRadius || (s.t >= 1 && s.distance <= offRouteDistance)) {
+        if (legIndex < legCount - 1) legIndex += 1;
+        else finished = true;
+      }
+      const next = points[Math.min(legIndex + 1, points.length - 1)];
+      if (next !== to) distanceToNext = getDistance(position.lat, position.lng, next.lat, next.lng);
+
+      if (!offRoute && s.distance > offRouteDistance) offRoute = true;
+      else if (offRoute && s.distance < offRouteDistance * OFF_ROUTE_EXIT_FACTOR) offRoute = false;
+
+      const along = cumulative[s.leg] + (cumulative[Math.min(s.leg + 1, points.length - 1)] - cumulative[s.leg]) * s.t;
+      return {
+        legIndex,
+        legCount,
+        snapped,
+        next,
+        distanceToNext,
+        bearingToNext: getBearing(position.lat, position.lng, next.lat, next.lng),
+        offRouteDistance: s.distance,
+        isOffRoute: offRoute,
+        remaining: finished ? 0 : Math.max(total - along, 0),
+        total,
+        finished,
+      };
+    },
+    reset() {
+      legIndex = 0;
+      offRoute = false;
+      finished = false;
+    },
+  };
+};
+
+export type RouteNavigator = ReturnType<typeof createRouteNavigator>;
+
+// Turns a breadcrumb trail (oldest first) into a route leading back to its
+// first point. Pause gaps are bridged with a straight leg.
+export const createTracBackRoute = (breadcrumbs: { lat: number; lng: number }[]): Route => {
+  const points: RoutePoint[] = simplifyLine([...breadcrumbs].reverse(), TRACBACK_TOLERANCE).map(p => ({ lat: p.lat, lng: p.lng }));
+  if (points.length > 0) points[points.length - 1].name = 'Start';
+  return { name: 'Return to start', kind: 'tracback', points };
+};
@@ -0,0 +1,185 @@
+import { EARTH_RADIUS, calculateTotalDistance, splitSegments, toRad, type GeoPoint } from '@/lib/geo';
+
+// Polyline simplification for long tracks. Both algorithms work in a local
+// equirectangular projection (metres), keep segment endpoints, and simplify
+// each recording segment on its own so pauses are never bridged.
+
+export type SimplifyAlgorithm = 'douglas-peucker' | 'visvalingam';
+
+export type SimplifyConfig = { enabled: boolean; algorithm: SimplifyAlgorithm; tolerance: number };
+
+export type SimplifyStats = {
+  before: number;
+  after: number;
+  distanceBefore: number;
+  distanceAfter: number;
+  maxDeviation: number; // m, furthest dropped point from the simplified line
+};
+
+export const SIMPLIFY_ALGORITHMS: { id: SimplifyAlgorithm, label: string, shortLabel: string }[] = [
+  { id: 'douglas-peucker', label: 'Douglas–Peucker', shortLabel: 'DP' },
+  { id: 'visvalingam', label: 'Visvalingam–Whyatt', shortLabel: 'VW' },
+];
+
+export const DEFAULT_SIMPLIFY_CONFIG: SimplifyConfig = { enabled: false, algorithm: 'douglas-peucker', tolerance: 5 };
+
+type XY = { x: number; y: number };
+
+const projectAll = (points: { lat: number; lng: number }[]): XY[] => {
+  if (points.length === 0) return [];
+  const lat0 = points[0].lat;
+  const lng0 = points[0].lng;
+  const cosLat = Math.cos(toRad(lat0));
+  return points.map(p => ({ x: toRad(p.lng - lng0) * cosLat * EARTH_RADIUS, y: toRad(p.lat - lat0) * EARTH_RADIUS }));
+};
+
+const segmentDistance = (p: XY, a: XY, b: XY) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+const triangleArea = (a: XY, b: XY, c: XY) => Math.abs((b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y)) / 2;
+
+// Returns the indices of the points to keep.
+const douglasPeucker = (xy: XY[], tolerance: number): number[] => {
+  if (xy.length <= 2) return xy.map((_, i) => i);
+  const keep = new Uint8Array(xy.length);
+  keep[0] = 1;
+  keep[xy.length - 1] = 1;
+  const stack: [number, number][] = [[0, xy.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let maxDist = 0;
+    let index = -1;
+    for (let i = start + 1; i < end; i++) {
+      const d = segmentDistance(xy[i], xy[start], xy[end]);
+      if (d > maxDist) { maxDist = d; index = i; }
+    }
+    if (index !== -1 && maxDist > tolerance) {
+      keep[index] = 1;
+      stack.push([start, index], [index, end]);
+    }
+  }
+  const result: number[] = [];
+  keep.forEach((k, i) => { if (k) result.push(i); });
+  return result;
+};
+
+// Visvalingam–Whyatt with a binary min-heap. The tolerance is a distance;
+// the area threshold is the triangle a spike of that height on a base of
+// the same length would make (tolerance² / 2).
+const visvalingam = (xy: XY[], tolerance: number): number[] => {
+  const n = xy.length;
+  if (n <= 2) return xy.map((_, i) => i);
+  const threshold = tolerance * tolerance / 2;
+  const prev = new Int32Array(n).map((_, i) => i - 1);
+  const next = new Int32Array(n).map((_, i) => i + 1);
+  const area = new Float64Array(n).fill(Infinity);
+  const removed = new Uint8Array(n);
+  const heap: number[] = [];
+  const pos = new Int32Array(n).fill(-1);
+
+  const swap = (i: number, j: number) => {
+    [heap[i], heap[j]] = [heap[j], heap[i]];
+    pos[heap[i]] = i;
+    pos[heap[j]] = j;
+  };
+  const up = (i: number) => {
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (area[heap[parent]] <= area[heap[i]]) break;
+      swap(i, parent);
+      i = parent;
+    }
+  };
+  const down = (i: number) => {
+    for (;;) {
+      const l = 2 * i + 1;
+      const r = l + 1;
+      let smallest = i;
+      if (l < heap.length && area[heap[l]] < area[heap[smallest]]) smallest = l;
+      if (r < heap.length && area[heap[r]] < area[heap[smallest]]) smallest = r;
+      if (smallest === i) break;
+      swap(i, smallest);
+      i = smallest;
+    }
+  };
+  const pop = () => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    pos[top] = -1;
+    if (heap.length > 0) {
+      heap[0] = last;
+      pos[last] = 0;
+      down(0);
+    }
+    return top;
+  };
+  const update = (i: number, value: number) => {
+    area[i] = value;
+    up(pos[i]);
+    down(pos[i]);
+  };
+
+  for (let i = 1; i < n - 1; i++) {
+    area[i] = triangleArea(xy[i - 1], xy[i], xy[i + 1]);
+    heap.push(i);
+    pos[i] = heap.length - 1;
+    up(heap.length - 1);
+  }
+
+  let floor = 0;
+  while (heap.length > 0 && area[heap[0]] < threshold) {
+    const i = pop();
+    // Never let a neighbour's effective area drop below one already removed.
+    floor = Math.max(floor, area[i]);
+    removed[i] = 1;
+    const p = prev[i];
+    const q = next[i];
+    next[p] = q;
+    prev[q] = p;
+    if (p > 0) update(p, Math.max(floor, triangleArea(xy[prev[p]], xy[p], xy[q])));
+    if (q < n - 1) update(q, Math.max(floor, triangleArea(xy[p], xy[q], xy[next[q]])));
+  }
+
+  const result: number[] = [];
+  removed.forEach((r, i) => { if (!r) result.push(i); });
+  return result;
+};
+
+const runAlgorithm = (algorithm: SimplifyAlgorithm, xy: XY[], tolerance: number) =>
+  algorithm === 'visvalingam' ? visvalingam(xy, tolerance) : douglasPeucker(xy, tolerance);
+
+// Simplifies a plain polyline (used for on-screen rendering of overlays).
+export const simplifyLine = <T extends { lat: number; lng: number }>(points: T[], tolerance: number, algorithm: SimplifyAlgorithm = 'douglas-peucker'): T[] => {
+  if (points.length <= 2 || tolerance <= 0) return points;
+  return runAlgorithm(algorithm, projectAll(points), tolerance).map(i => points[i]);
+};
+
+export const simplifyTrack = (points: GeoPoint[], { algorithm, tolerance }: Pick<SimplifyConfig, 'algorithm' | 'tolerance'>): { points: GeoPoint[]; stats: SimplifyStats } => {
+  const kept: GeoPoint[] = [];
+  let maxDeviation = 0;
+  splitSegments(points).forEach(segment => {
+    const xy = projectAll(segment);
+    const indices = tolerance > 0 ? runAlgorithm(algorithm, xy, tolerance) : segment.map((_, i) => i);
+    for (let k = 0; k < indices.length - 1; k++) {
+      const a = indices[k];
+      const b = indices[k + 1];
+      for (let i = a + 1; i < b; i++) maxDeviation = Math.max(maxDeviation, segmentDistance(xy[i], xy[a], xy[b]));
+    }
+    indices.forEach(i => kept.push(segment[i]));
+  });
+  return {
+    points: kept,
+    stats: {
+      before: points.length,
+      after: kept.length,
+      distanceBefore: calculateTotalDistance(points),
+      distanceAfter: calculateTotalDistance(kept),
+      maxDeviation,
+    },
+  };
+};
@@ -0,0 +1,137 @@
+import { toDeg, toRad } from '@/lib/geo';
+
+// NOAA solar calculator (Meeus, "Astronomical Algorithms"), good to about a
+// minute between ±72° latitude and degrading gracefully towards the poles.
+// Events are found for the solar day at the given longitude, so they stay
+// right when the device clock is in a different time zone than the fix.
+
+const MINUTE = 60_000;
+const DAY = 86_400_000;
+
+// Sun elevation at each event, degrees. Sunrise/sunset include refraction and
+// the solar semi-diameter.
+export const SOLAR_ELEVATIONS = {
+  horizon: -0.833,
+  civil: -6,
+  nautical: -12,
+  astronomical: -18,
+  blueHourEnd: -4, // blue hour runs from civil twilight to −4°
+  goldenHourEnd: 6, // golden hour runs from −4° to +6°
+} as const;
+
+export type SolarPosition = {
+  elevation: number; // degrees above the horizon, refraction not applied
+  azimuth: number; // degrees true, clockwise from north
+};
+
+export type TimeRange = { start: Date | null; end: Date | null };
+
+export type SolarTimes = {
+  solarNoon: Date;
+  noonElevation: number;
+  sunrise: Date | null; // null when the sun doesn't cross the horizon that day
+  sunset: Date | null;
+  civilDawn: Date | null;
+  civilDusk: Date | null;
+  nauticalDawn: Date | null;
+  nauticalDusk: Date | null;
+  astronomicalDawn: Date | null;
+  astronomicalDusk: Date | null;
+  morningBlueHour: TimeRange;
+  morningGoldenHour: TimeRange;
+  eveningGoldenHour: TimeRange;
+  eveningBlueHour: TimeRange;
+};
+
+const julianCentury = (time: number) => (time / DAY + 2440587.5 - 2451545) / 36525;
+
+// Declination (degrees) and equation of time (minutes) at a moment.
+const solarCoordinates = (time: number) => {
+  const T = julianCentury(time);
+  const L0 = (280.46646 + T * (36000.76983 + T * 0.0003032)) % 360;
+  const M = 357.52911 + T * (35999.05029 - 0.0001537 * T);
+  const e = 0.016708634 - T * (0.000042037 + 0.0000001267 * T);
+  const C = Math.sin(toRad(M)) * (1.914602 - T * (0.004817 + 0.000014 * T))
+    + Math.sin(toRad(2 * M)) * (0.019993 - 0.000101 * T)
+    + Math.sin(toRad(3 * M)) * 0.000289;
+  const omega = 125.04 - 1934.136 * T;
+  const lambda = L0 + C - 0.00569 - 0.00478 * Math.sin(toRad(omega));
+  const epsilon0 = 23 + (26 + (21.448 - T * (46.815 + T * (0.00059 - T * 0.001813))) / 60) / 60;
+  const epsilon = epsilon0 + 0.00256 * Math.cos(toRad(omega));
+  const declination = toDeg(Math.asin(Math.sin(toRad(epsilon)) * Math.sin(toRad(lambda))));
+
+  const y = Math.tan(toRad(epsilon / 2)) ** 2;
+  const equationOfTime = 4 * toDeg(
+    y * Math.sin(2 * toRad(L0))
+    - 2 * e * Math.sin(toRad(M))
+    + 4 * e * y * Math.sin(toRad(M)) * Math.cos(2 * toRad(L0))
+    - 0.5 * y * y * Math.sin(4 * toRad(L0))
+    - 1.25 * e * e * Math.sin(2 * toRad(M))
+  );
+  return { declination, equationOfTime };
+};
+
+export const getSolarPosition = (date: Date, lat: number, lng: number): SolarPosition => {
+  const time = date.getTime();
+  const { declination, equationOfTime } = solarCoordinates(time);
+  const utcMinutes = ((time % DAY) + DAY) % DAY / MINUTE;
+  const hourAngle = toRad((utcMinutes + equationOfTime + 4 * lng) / 4 - 180);
+  const φ = toRad(lat);
+  const δ = toRad(declination);
+  const elevation = toDeg(Math.asin(Math.sin(φ) * Math.sin(δ) + Math.cos(φ) * Math.cos(δ) * Math.cos(hourAngle)));
+  const azimuth = (toDeg(Math.atan2(Math.sin(hourAngle), Math.cos(hourAngle) * Math.sin(φ) - Math.tan(δ) * Math.cos(φ))) + 180 + 360) % 360;
+  return { elevation, azimuth };
+};
+
+// Index of the local mean solar day containing `time`; changes at local
+// solar midnight rather than UTC midnight.
+export const solarDayIndex = (time: number, lng: number) => Math.floor((time + lng * 4 * MINUTE) / DAY);
+
+const solarNoonNear = (time: number, lng: number) => {
+  // Midnight UTC of the calendar day in local mean solar time.
+  const solarMidnight = solarDayIndex(time, lng) * DAY;
+  let noon = solarMidnight + (720 - 4 * lng) * MINUTE;
+  noon = solarMidnight + (720 - 4 * lng - solarCoordinates(noon).equationOfTime) * MINUTE;
+  return noon;
+};
+
+// Time the sun passes `elevation` before (rising) or after noon; two passes
+// refine declination and equation of time at the event itself.
+const eventTime = (noon: number, lat: number, lng: number, elevation: number, rising: boolean): Date | null => {
+  let time = noon;
+  for (let i = 0; i < 2; i++) {
+    const { declination, equationOfTime } = solarCoordinates(time);
+    const φ = toRad(lat);
+    const δ = toRad(declination);
+    const cosH = (Math.sin(toRad(elevation)) - Math.sin(φ) * Math.sin(δ)) / (Math.cos(φ) * Math.cos(δ));
+    if (cosH < -1 || cosH > 1) return null;
+    const hourAngle = toDeg(Math.acos(cosH));
+    const dayStart = Math.floor((noon + lng * 4 * MINUTE) / DAY) * DAY;
+    time = dayStart + (720 - 4 * lng - equationOfTime + (rising ? -4 : 4) * hourAngle) * MINUTE;
+  }
+  return new Date(time);
+};
+
+export const getSolarTimes = (date: Date, lat: number, lng: number): SolarTimes => {
+  const noon = solarNoonNear(date.getTime(), lng);
+  const at = (elevation: number, rising: boolean) => eventTime(noon, lat, lng, elevation, rising);
+  const { horizon, civil, nautical, astronomical, blueHourEnd, goldenHourEnd } = SOLAR_ELEVATIONS;
+  return {
+    solarNoon: new Date(noon),
+    noonElevation: getSolarPosition(new Date(noon), lat, lng).elevation,
+    sunrise: at(horizon, true),
+    sunset: at(horizon, false),
+    civilDawn: at(civil, true),
+    civilDusk: at(civil, false),
+    nauticalDawn: at(nautical, true),
+    nauticalDusk: at(nautical, false),
+    astronomicalDawn: at(astronomical, true),
+    astronomicalDusk: at(astronomical, false),
+    morningBlueHour: { start: at(civil, true), end: at(blueHourEnd, true) },
+    morningGoldenHour: { start: at(blueHourEnd, true), end: at(goldenHourEnd, true) },
+    eveningGoldenHour: { start: at(goldenHourEnd, false), end: at(blueHourEnd, false) },
+    eveningBlueHour: { start: at(blueHourEnd, false), end: at(civil, false) },
+  };
+};
+
+export const shiftDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY);
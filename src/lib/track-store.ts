@@ -0,0 +1,275 @@
+import { calculateTotalDistance, getBoundingBox, type BoundingBox, type GeoPoint } from '@/lib/geo';
+import type { CoordinateFormat } from '@/lib/coordinate-formats';
+import type { Geofence, GeofenceEvent } from '@/lib/geofences';
+
+// Thin promise wrapper over IndexedDB for track, waypoint, geofence and settings persistence.
+// The active recording is written point-by-point so a reload or crash loses
+// at most the fix that was in flight.
+
+const DB_NAME = 'fieldnav';
+const DB_VERSION = 6;
+const ACTIVE_META_STORE = 'active-meta';
+const ACTIVE_POINTS_STORE = 'active-points';
+const TRACKS_STORE = 'tracks';
+const WAYPOINTS_STORE = 'waypoints';
+const GEOFENCES_STORE = 'geofences';
+const GEOFENCE_EVENTS_STORE = 'geofence-events';
+const SETTINGS_STORE = 'settings';
+const ACTIVE_KEY = 'current';
+
+export type ActiveRecordingMeta = { startedAt: number; stoppedAt: number | null };
+export type ActiveRecording = ActiveRecordingMeta & { points: GeoPoint[] };
+
+export type SavedTrack = {
+  id: string;
+  name: string;
+  startedAt: number;
+  endedAt: number;
+  distance: number; // metres
+  duration: number; // ms
+  bbox: BoundingBox | null;
+  points: GeoPoint[];
+};
+
+export type WaypointIcon = 'pin' | 'flag' | 'camp' | 'water' | 'vehicle' | 'hazard' | 'photo' | 'star';
+
+export type Waypoint = {
+  id: string;
+  name: string;
+  icon: WaypointIcon;
+  note: string;
+  lat: number;
+  lng: number;
+  alt: number | null;
+  timestamp: number;
+  photo: Blob | null;
+};
+
+export type StoredSettings = {
+  coordinateFormat: CoordinateFormat;
+  headingOffset: number | null; // degrees, from the last sun sight
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+export const isTrackStoreAvailable = () => typeof indexedDB !== 'undefined';
+
+export const openTrackDB = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ACTIVE_META_STORE)) db.createObjectStore(ACTIVE_META_STORE);
+        if (!db.objectStoreNames.contains(ACTIVE_POINTS_STORE)) db.createObjectStore(ACTIVE_POINTS_STORE, { autoIncrement: true });
+        if (!db.objectStoreNames.contains(TRACKS_STORE)) db.createObjectStore(TRACKS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(WAYPOINTS_STORE)) db.createObjectStore(WAYPOINTS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(GEOFENCES_STORE)) db.createObjectStore(GEOFENCES_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(GEOFENCE_EVENTS_STORE)) db.createObjectStore(GEOFENCE_EVENTS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SETTINGS_STORE)) db.createObjectStore(SETTINGS_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => { dbPromise = null; reject(request.error); };
+    });
+  }
+  return dbPromise;
+};
+
+export const beginActiveRecording = async (startedAt: number, points: GeoPoint[] = []) => {
+  const db = await openTrackDB();
+  const tx = db.transaction([ACTIVE_META_STORE, ACTIVE_POINTS_STORE], 'readwrite');
+  const pointStore = tx.objectStore(ACTIVE_POINTS_STORE);
+  pointStore.clear();
+  points.forEach(p => pointStore.add(p));
+  tx.objectStore(ACTIVE_META_STORE).put({ startedAt, stoppedAt: null } satisfies ActiveRecordingMeta, ACTIVE_KEY);
+  return transactionDone(tx);
+};
+
+export const appendActivePoint = async (point: GeoPoint) => {
+  const db = await openTrackDB();
+  const tx = db.transaction(ACTIVE_POINTS_STORE, 'readwrite');
+  tx.objectStore(ACTIVE_POINTS_STORE).add(point);
+  return transactionDone(tx);
+};
+
+export const markActiveRecordingStopped = async (stoppedAt: number) => {
+  const db = await openTrackDB();
+  const tx = db.transaction(ACTIVE_META_STORE, 'readwrite');
+  const store = tx.objectStore(ACTIVE_META_STORE);
+  const meta = await promisify<ActiveRecordingMeta | undefined>(store.get(ACTIVE_KEY));
+  if (meta) store.put({ ...meta, stoppedAt }, ACTIVE_KEY);
+  return transactionDone(tx);
+};
+
+export const loadActiveRecording = async (): Promise<ActiveRecording | null> => {
+  const db = await openTrackDB();
+  const tx = db.transaction([ACTIVE_META_STORE, ACTIVE_POINTS_STORE], 'readonly');
+  const [meta, points] = await Promise.all([
+    promisify<ActiveRecordingMeta | undefined>(tx.objectStore(ACTIVE_META_STORE).get(ACTIVE_KEY)),
+    promisify<GeoPoint[]>(tx.objectStore(ACTIVE_POINTS_STORE).getAll()),
+  ]);
+  if (!meta) return null;
+  return { ...meta, points };
+};
+
+export const clearActiveRecording = async () => {
+  const db = await openTrackDB();
+  const tx = db.transaction([ACTIVE_META_STORE, ACTIVE_POINTS_STORE], 'readwrite');
+  tx.objectStore(ACTIVE_META_STORE).clear();
+  tx.objectStore(ACTIVE_POINTS_STORE).clear();
+  return transactionDone(tx);
+};
+
+// --- Track library ---
+export const createSavedTrack = (points: GeoPoint[], name?: string): SavedTrack => {
+  const startedAt = points[0]?.timestamp ?? Date.now();
+  const endedAt = points[points.length - 1]?.timestamp ?? startedAt;
+  return {
+    id: `${startedAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name ?? `Mission ${new Date(startedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short', hour12: false })}`,
+    startedAt,
+    endedAt,
+    distance: calculateTotalDistance(points),
+    duration: endedAt - startedAt,
+    bbox: getBoundingBox(points),
+    points,
+  };
+};
+
+export const saveTrack = async (track: SavedTrack) => {
+  const db = await openTrackDB();
+  const tx = db.transaction(TRACKS_STORE, 'readwrite');
+  tx.objectStore(TRACKS_STORE).put(track);
+  return transactionDone(tx);
+};
+
+export const listTracks = async () => {
+  const db = await openTrackDB();
+  const tracks = await promisify<SavedTrack[]>(db.transaction(TRACKS_STORE, 'readonly').objectStore(TRACKS_STORE).getAll());
+  return tracks.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const renameTrack = async (id: string, name: string) => {
+  const db = await openTrackDB();
+  const tx = db.transaction(TRACKS_STORE, 'readwrite');
+  const store = tx.objectStore(TRACKS_STORE);
+  const track = await promisify<SavedTrack | undefined>(store.get(id));
+  if (track) store.put({ ...track, name });
+  return transactionDone(tx);
+};
+
+export const deleteTrack = async (id: string) => {
+  const db = await openTrackDB();
+  const tx = db.transaction(TRACKS_STORE, 'readwrite');
+  tx.objectStore(TRACKS_STORE).delete(id);
+  return transactionDone(tx);
+};
+
+// --- Waypoints ---
+export const createWaypoint = (point: { lat: number; lng: number; alt: number | null }, index: number): Waypoint => {
+  const timestamp = Date.now();
+  return {
+    id: `${timestamp.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: `WPT ${String(index).padStart(3, '0')}`,
+    icon: 'pin',
+    note: '',
+    lat: point.lat,
+    lng: point.lng,
+    alt: point.alt,
+    timestamp,
+    photo: null,
+  };
+};
+
+// Next free "WPT nnn" number; counting up from the highest keeps names unique after deletions.
+export const nextWaypointIndex = (waypoints: Waypoint[]) =>
+  waypoints.reduce((max, w) => {
+    const match = /^WPT (\d+)$/.exec(w.name);
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0) + 1;
+
+export const saveWaypoint = async (waypoint: Waypoint) => {
+  const db = await openTrackDB();
+  const tx = db.transaction(WAYPOINTS_STORE, 'readwrite');
+  tx.objectStore(WAYPOINTS_STORE).put(waypoint);
+  return transactionDone(tx);
+};
+
+export const listWaypoints = async () => {
+  const db = await openTrackDB();
+  const waypoints = await promisify<Waypoint[]>(db.transaction(WAYPOINTS_STORE, 'readonly').objectStore(WAYPOINTS_STORE).getAll());
+  return waypoints.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const deleteWaypoint = async (id: string) => {
+  const db = await openTrackDB();
+  const tx = db.transaction(WAYPOINTS_STORE, 'readwrite');
+  tx.objectStore(WAYPOINTS_STORE).delete(id);
+  return transactionDone(tx);
+};
+
+// --- Geofences ---
+export const saveGeofence = async (fence: Geofence) => {
+  const db = await openTrackDB();
+  const tx = db.transaction(GEOFENCES_STORE, 'readwrite');
+  tx.objectStore(GEOFENCES_STORE).put(fence);
+  return transactionDone(tx);
+};
+
+export const listGeofences = async () => {
+  const db = await openTrackDB();
+  const fences = await promisify<Geofence[]>(db.transaction(GEOFENCES_STORE, 'readonly').objectStore(GEOFENCES_STORE).getAll());
+  return fences.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const deleteGeofence = async (id: string) => {
+  const db = await openTrackDB();
+  const tx = db.transaction(GEOFENCES_STORE, 'readwrite');
+  tx.objectStore(GEOFENCES_STORE).delete(id);
+  return transactionDone(tx);
+};
+
+export const saveGeofenceEvents = async (events: GeofenceEvent[]) => {
+  const db = await openTrackDB();
+  const tx = db.transaction(GEOFENCE_EVENTS_STORE, 'readwrite');
+  const store = tx.objectStore(GEOFENCE_EVENTS_STORE);
+  events.forEach(e => store.put(e));
+  return transactionDone(tx);
+};
+
+export const listGeofenceEvents = async () => {
+  const db = await openTrackDB();
+  const events = await promisify<GeofenceEvent[]>(db.transaction(GEOFENCE_EVENTS_STORE, 'readonly').objectStore(GEOFENCE_EVENTS_STORE).getAll());
+  return events.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const clearGeofenceEvents = async () => {
+  const db = await openTrackDB();
+  const tx = db.transaction(GEOFENCE_EVENTS_STORE, 'readwrite');
+  tx.objectStore(GEOFENCE_EVENTS_STORE).clear();
+  return transactionDone(tx);
+};
+
+// --- Settings ---
+export const loadSetting = async <K extends keyof StoredSettings>(key: K) => {
+  const db = await openTrackDB();
+  return promisify<StoredSettings[K] | undefined>(db.transaction(SETTINGS_STORE, 'readonly').objectStore(SETTINGS_STORE).get(key));
+};
+
+export const saveSetting = async <K extends keyof StoredSettings>(key: K, value: StoredSettings[K]) => {
+  const db = await openTrackDB();
+  const tx = db.transaction(SETTINGS_STORE, 'readwrite');
+  tx.objectStore(SETTINGS_STORE).put(value, key);
+  return transactionDone(tx);
+};
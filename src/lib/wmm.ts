@@ -0,0 +1,132 @@
+import { toDeg, toRad } from '@/lib/geo';
+
+// World Magnetic Model 2025 (NOAA/NCEI and BGS, public domain), degree and
+// order 12. Valid 2025.0–2030.0; outside that window the secular variation
+// is still extrapolated but accuracy degrades.
+
+export const WMM_EPOCH = 2025.0;
+export const WMM_VALID_UNTIL = 2030.0;
+
+const WMM_REFERENCE_RADIUS = 6371.2; // km
+const WGS84_A = 6378.137; // km
+const WGS84_F = 1 / 298.257223563;
+const WGS84_E2 = WGS84_F * (2 - WGS84_F);
+const MAX_DEGREE = 12;
+
+// [n, m, g, h, ġ, ḣ]: Gauss coefficients in nT and their yearly change in nT/yr.
+const WMM_COEFFICIENTS: [number, number, number, number, number, number][] = [
+  [1, 0, -29351.8, 0, 12, 0], [1, 1, -1410.8, 4545.4, 9.7, -21.5],
+  [2, 0, -2556.6, 0, -11.6, 0], [2, 1, 2951.1, -3133.6, -5.2, -27.7], [2, 2, 1649.3, -815.1, -8, -12.1],
+  [3, 0, 1361, 0, -1.3, 0], [3, 1, -2404.1, -56.6, -4.2, 4], [3, 2, 1243.8, 237.5, 0.4, -0.3], [3, 3, 453.6, -549.5, -15.6, -4.1],
+  [4, 0, 895, 0, -1.6, 0], [4, 1, 799.5, 278.6, -2.4, -1.1], [4, 2, 55.7, -133.9, -6, 4.1], [4, 3, -281.1, 212, 5.6, 1.6],
+  [4, 4, 12.1, -375.6, -7, -4.4],
+  [5, 0, -233.2, 0, 0.6, 0], [5, 1, 368.9, 45.4, 1.4, -0.5], [5, 2, 187.2, 220.2, 0, 2.2], [5, 3, -138.7, -122.9, 0.6, 0.4],
+  [5, 4, -142, 43, 2.2, 1.7], [5, 5, 20.9, 106.1, 0.9, 1.9],
+  [6, 0, 64.4, 0, -0.2, 0], [6, 1, 63.8, -18.4, -0.4, 0.3], [6, 2, 76.9, 16.8, 0.9, -1.6], [6, 3, -115.7, 48.8, 1.2, -0.4],
+  [6, 4, -40.9, -59.8, -0.9, 0.9], [6, 5, 14.9, 10.9, 0.3, 0.7], [6, 6, -60.7, 72.7, 0.9, 0.9],
+  [7, 0, 79.5, 0, 0, 0], [7, 1, -77, -48.9, -0.1, 0.6], [7, 2, -8.8, -14.4, -0.1, 0.5], [7, 3, 59.3, -1, 0.5, -0.8],
+  [7, 4, 15.8, 23.4, -0.1, 0], [7, 5, 2.5, -7.4, -0.8, -1], [7, 6, -11.1, -25.1, -0.8, 0.6], [7, 7, 14.2, -2.3, 0.8, -0.2],
+  [8, 0, 23.2, 0, -0.1, 0], [8, 1, 10.8, 7.1, 0.2, -0.2], [8, 2, -17.5, -12.6, 0, 0.5], [8, 3, 2, 11.4, 0.5, -0.4],
+  [8, 4, -21.7, -9.7, -0.1, 0.4], [8, 5, 16.9, 12.7, 0.3, -0.5], [8, 6, 15, 0.7, 0.2, -0.6], [8, 7, -16.8, -5.2, 0, 0.3],
+  [8, 8, 0.9, 3.9, 0.2, 0.2],
+  [9, 0, 4.6, 0, 0, 0], [9, 1, 7.8, -24.8, -0.1, -0.3], [9, 2, 3, 12.2, 0.1, 0.3], [9, 3, -0.2, 8.3, 0.3, -0.3],
+  [9, 4, -2.5, -3.3, -0.3, 0.3], [9, 5, -13.1, -5.2, 0, 0.2], [9, 6, 2.4, 7.2, 0.3, -0.1], [9, 7, 8.6, -0.6, -0.1, -0.2],
+  [9, 8, -8.7, 0.8, 0.1, 0.4], [9, 9, -12.9, 10, -0.1, 0.1],
+  [10, 0, -1.3, 0, 0.1, 0], [10, 1, -6.4, 3.3, 0, 0], [10, 2, 0.2, 0, 0.1, 0], [10, 3, 2, 2.4, 0.1, -0.2],
+  [10, 4, -1, 5.3, 0, 0.1], [10, 5, -0.6, -9.1, -0.3, -0.1], [10, 6, -0.9, 0.4, 0, 0.1], [10, 7, 1.5, -4.2, -0.1, 0],
+  [10, 8, 0.9, -3.8, -0.1, -0.1], [10, 9, -2.7, 0.9, 0, 0.2], [10, 10, -3.9, -9.1, 0, 0],
+  [11, 0, 2.9, 0, 0, 0], [11, 1, -1.5, 0, 0, 0], [11, 2, -2.5, 2.9, 0, 0.1], [11, 3, 2.4, -0.6, 0, 0],
+  [11, 4, -0.6, 0.2, 0, 0.1], [11, 5, -0.1, 0.5, -0.1, 0], [11, 6, -0.6, -0.3, 0, 0], [11, 7, -0.1, -1.2, 0, 0.1],
+  [11, 8, 1.1, -1.7, -0.1, 0], [11, 9, -1, -2.9, -0.1, 0], [11, 10, -0.2, -1.8, -0.1, 0], [11, 11, 2.6, -2.3, -0.1, 0],
+  [12, 0, -2, 0, 0, 0], [12, 1, -0.2, -1.3, 0, 0], [12, 2, 0.3, 0.7, 0, 0], [12, 3, 1.2, 1, 0, -0.1],
+  [12, 4, -1.3, -1.4, 0, 0.1], [12, 5, 0.6, 0, 0, 0], [12, 6, 0.6, 0.6, 0.1, 0], [12, 7, 0.5, -0.1, 0, 0],
+  [12, 8, -0.1, 0.8, 0, 0], [12, 9, -0.4, 0.1, 0, 0], [12, 10, -0.2, -1, -0.1, 0], [12, 11, -1.3, 0.1, 0, 0],
+  [12, 12, -0.7, 0.2, -0.1, -0.1],
+];
+
+export type MagneticField = {
+  declination: number; // degrees, east positive
+  inclination: number; // degrees, down positive
+  horizontalIntensity: number; // nT
+  totalIntensity: number; // nT
+};
+
+const decimalYear = (date: Date) => {
+  const year = date.getUTCFullYear();
+  const start = Date.UTC(year, 0, 1);
+  return year + (date.getTime() - start) / (Date.UTC(year + 1, 0, 1) - start);
+};
+
+// Schmidt semi-normalised associated Legendre functions of cos θ and their
+// θ-derivatives, indexed [n][m].
+const legendre = (cosTheta: number, sinTheta: number) => {
+  const p = Array.from({ length: MAX_DEGREE + 1 }, () => new Float64Array(MAX_DEGREE + 1));
+  const dp = Array.from({ length: MAX_DEGREE + 1 }, () => new Float64Array(MAX_DEGREE + 1));
+  p[0][0] = 1;
+  p[1][1] = sinTheta;
+  dp[1][1] = cosTheta;
+  for (let n = 2; n <= MAX_DEGREE; n++) {
+    const k = Math.sqrt((2 * n - 1) / (2 * n));
+    p[n][n] = k * sinTheta * p[n - 1][n - 1];
+    dp[n][n] = k * (sinTheta * dp[n - 1][n - 1] + cosTheta * p[n - 1][n - 1]);
+  }
+  for (let m = 0; m < MAX_DEGREE; m++) {
+    for (let n = m + 1; n <= MAX_DEGREE; n++) {
+      const a = Math.sqrt(n * n - m * m);
+      const b = n >= 2 ? Math.sqrt((n - 1) * (n - 1) - m * m) : 0;
+      const pPrev2 = n >= 2 ? p[n - 2][m] : 0;
+      const dpPrev2 = n >= 2 ? dp[n - 2][m] : 0;
+      p[n][m] = ((2 * n - 1) * cosTheta * p[n - 1][m] - b * pPrev2) / a;
+      dp[n][m] = ((2 * n - 1) * (cosTheta * dp[n - 1][m] - sinTheta * p[n - 1][m]) - b * dpPrev2) / a;
+    }
+  }
+  return { p, dp };
+};
+
+export const getMagneticField = (lat: number, lng: number, altitude = 0, date = new Date()): MagneticField => {
+  const dt = decimalYear(date) - WMM_EPOCH;
+  const altKm = altitude / 1000;
+
+  // Geodetic to geocentric spherical coordinates.
+  const phi = toRad(lat);
+  const sinPhi = Math.sin(phi);
+  const rc = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinPhi * sinPhi);
+  const xp = (rc + altKm) * Math.cos(phi);
+  const zp = (rc * (1 - WGS84_E2) + altKm) * sinPhi;
+  const r = Math.hypot(xp, zp);
+  const phiPrime = Math.asin(zp / r);
+  const cosTheta = Math.sin(phiPrime);
+  // Clamp away from the poles, where the east component divides by sin θ.
+  const sinTheta = Math.max(Math.cos(phiPrime), 1e-10);
+  const lambda = toRad(lng);
+
+  const { p, dp } = legendre(cosTheta, sinTheta);
+  let x = 0;
+  let y = 0;
+  let z = 0;
+  WMM_COEFFICIENTS.forEach(([n, m, g0, h0, gDot, hDot]) => {
+    const g = g0 + dt * gDot;
+    const h = h0 + dt * hDot;
+    const scale = (WMM_REFERENCE_RADIUS / r) ** (n + 2);
+    const cosM = Math.cos(m * lambda);
+    const sinM = Math.sin(m * lambda);
+    x += scale * (g * cosM + h * sinM) * dp[n][m];
+    y += scale * m * (g * sinM - h * cosM) * p[n][m] / sinTheta;
+    z -= scale * (n + 1) * (g * cosM + h * sinM) * p[n][m];
+  });
+
+  // Rotate the north/down components back to the geodetic frame.
+  const psi = phiPrime - phi;
+  const north = x * Math.cos(psi) - z * Math.sin(psi);
+  const down = x * Math.sin(psi) + z * Math.cos(psi);
+  const horizontal = Math.hypot(north, y);
+  return {
+    declination: toDeg(Math.atan2(y, north)),
+    inclination: toDeg(Math.atan2(down, horizontal)),
+    horizontalIntensity: horizontal,
+    totalIntensity: Math.hypot(horizontal, down),
+  };
+};
+
+export const getMagneticDeclination = (lat: number, lng: number, altitude = 0, date = new Date()) =>
+  getMagneticField(lat, lng, altitude, date).declination;